@@ -0,0 +1,145 @@
+import { Keypair } from '@solana/web3.js';
+import { createHash } from 'crypto';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import fetch from 'node-fetch';
+import nacl from 'tweetnacl';
+import { silentLogger } from './logger';
+import { createProviderServer } from './server';
+import { ProviderServer } from './types';
+import { KeypairSigner } from './wallet';
+
+const TOKEN = 'admin-secret';
+
+/**
+ * An X-Admin-Auth header signing a request and its body
+ */
+function adminAuth(keypair: Keypair, method: string, path: string, body = ''): string {
+    const wallet = keypair.publicKey.toBase58();
+    const timestamp = Date.now();
+    const bodyHash = createHash('sha256').update(body).digest('hex');
+    const message = new TextEncoder().encode(`x402-admin:${method} ${path}:${bodyHash}:${wallet}:${timestamp}`);
+    const signature = Buffer.from(nacl.sign.detached(message, keypair.secretKey)).toString('base64');
+    return `${wallet}:${timestamp}:${signature}`;
+}
+
+describe('admin API', () => {
+    const admin = Keypair.generate();
+    let provider: ProviderServer;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+        provider = createProviderServer({
+            wallet: new KeypairSigner(Keypair.generate()),
+            port: 0,
+            registry: 'http://127.0.0.1:1',
+            registryOptions: { offlineStart: true },
+            logger: silentLogger,
+            adminToken: TOKEN,
+            adminWallets: [admin.publicKey.toBase58()],
+        });
+        provider.addAPI('test.echo', async params => params, { price: 0.1 });
+
+        const server: Server = await provider.start();
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => provider.stop());
+
+    const patch = (body: unknown, headers: Record<string, string>) =>
+        fetch(`${baseUrl}/admin/apis/test.echo`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify(body),
+        });
+
+    describe('authentication', () => {
+        it('accepts the bearer token', async () => {
+            const res = await fetch(`${baseUrl}/admin/apis`, { headers: { Authorization: `Bearer ${TOKEN}` } });
+
+            expect(res.status).toBe(200);
+            expect((await res.json()).apis).toEqual([expect.objectContaining({ name: 'test.echo' })]);
+        });
+
+        it('rejects a wrong or missing token', async () => {
+            const wrong = await fetch(`${baseUrl}/admin/apis`, { headers: { Authorization: 'Bearer admin-secreT' } });
+            const missing = await fetch(`${baseUrl}/admin/apis`);
+
+            expect(wrong.status).toBe(401);
+            expect(missing.status).toBe(401);
+        });
+
+        it('accepts a request signed by an admin wallet', async () => {
+            const body = JSON.stringify({ price: 0.2 });
+
+            const res = await patch(JSON.parse(body), {
+                'X-Admin-Auth': adminAuth(admin, 'PATCH', '/admin/apis/test.echo', body),
+            });
+
+            expect(res.status).toBe(200);
+            expect((await res.json()).price).toBe(0.2);
+        });
+
+        it('rejects a signed header sent with a different body', async () => {
+            const header = adminAuth(admin, 'PATCH', '/admin/apis/test.echo', JSON.stringify({ price: 0.2 }));
+
+            const res = await patch({ price: 0 }, { 'X-Admin-Auth': header });
+
+            expect(res.status).toBe(401);
+        });
+
+        it('rejects a signed header for another path', async () => {
+            const header = adminAuth(admin, 'POST', '/admin/apis/test.echo/enable');
+
+            const res = await fetch(`${baseUrl}/admin/apis/test.echo/disable`, {
+                method: 'POST',
+                headers: { 'X-Admin-Auth': header },
+            });
+
+            expect(res.status).toBe(401);
+        });
+
+        it('rejects wallets that are not admins', async () => {
+            const body = JSON.stringify({ price: 0.2 });
+
+            const res = await patch(JSON.parse(body), {
+                'X-Admin-Auth': adminAuth(Keypair.generate(), 'PATCH', '/admin/apis/test.echo', body),
+            });
+
+            expect(res.status).toBe(401);
+        });
+    });
+
+    describe('PATCH /admin/apis/:name', () => {
+        const auth = { Authorization: `Bearer ${TOKEN}` };
+
+        it.each([
+            [{ price: -1 }],
+            [{ timeout: 0 }],
+            [{ rateLimit: 0 }],
+            [{ rateLimit: { windowMs: 1000 } }],
+            [{ rateLimit: { requests: 10, burst: 5 } }],
+            [{ rateLimit: { requests: -1 } }],
+        ])('rejects %j', async update => {
+            expect((await patch(update, auth)).status).toBe(400);
+        });
+
+        it('sets and clears a rate limit', async () => {
+            const set = await patch({ rateLimit: { requests: 10, windowMs: 1000 } }, auth);
+            expect((await set.json()).rateLimit).toEqual({ requests: 10, windowMs: 1000 });
+
+            const cleared = await patch({ rateLimit: null }, auth);
+            expect((await cleared.json()).rateLimit).toBeUndefined();
+        });
+
+        it('reports unknown APIs', async () => {
+            const res = await fetch(`${baseUrl}/admin/apis/test.missing`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json', ...auth },
+                body: JSON.stringify({ price: 1 }),
+            });
+
+            expect(res.status).toBe(404);
+        });
+    });
+});
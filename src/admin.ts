@@ -0,0 +1,213 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextFunction, Request, Response, Router } from 'express';
+import { roundAmount } from './balances';
+import { toCSV } from './call-ledger';
+import { APIConfig, CallLedger, CallOutcome, ServerStats } from './types';
+import { createSignedHeaderVerifier } from './utils';
+
+/**
+ * A registered API as seen by the admin API
+ */
+export interface AdminAPI {
+    name: string;
+    enabled: boolean;
+    price: number;
+    timeout?: number;
+    rateLimit?: APIConfig['rateLimit'];
+    stream?: APIConfig['stream'];
+    description?: string;
+}
+
+/**
+ * Settings an admin can change on a live API
+ */
+export type AdminAPIUpdate = Partial<Pick<APIConfig, 'price' | 'timeout' | 'rateLimit'>>;
+
+/**
+ * Admin router options. The operations are provided by the server.
+ */
+export interface AdminRouterOptions {
+    /** Accepted bearer token */
+    token?: string;
+
+    /** Wallets whose signed X-Admin-Auth header is accepted */
+    wallets: string[];
+
+    callLedger: CallLedger;
+    listAPIs: () => AdminAPI[];
+
+    /** Each of these resolves to false if the API doesn't exist */
+    updateAPI: (name: string, update: AdminAPIUpdate) => boolean;
+    setEnabled: (name: string, enabled: boolean) => boolean;
+    removeAPI: (name: string) => boolean;
+
+    /** Stop or resume taking new calls */
+    setDraining: (draining: boolean) => Promise<void>;
+
+    getStats: () => ServerStats & { inFlight: number; draining: boolean };
+}
+
+/**
+ * Routes for live reconfiguration, mounted at /admin.
+ *
+ * Requests authenticate with `Authorization: Bearer <token>`, or with
+ * `X-Admin-Auth: <wallet>:<timestamp>:<base64 signature>` where an admin wallet
+ * signed `x402-admin:<METHOD> <path with query>:<body sha256 hex>:<wallet>:<timestamp>`.
+ */
+export function createAdminRouter(options: AdminRouterOptions): Router {
+    const { token, wallets, callLedger } = options;
+    const verifySignedHeader = createSignedHeaderVerifier();
+    const router = Router();
+
+    router.use((req: Request, res: Response, next: NextFunction) => {
+        if (token && isBearerToken(req.headers.authorization, token)) {
+            return next();
+        }
+
+        // The signature covers the body, so a captured header can't carry a different change
+        const bodyHash = createHash('sha256').update((req as any).rawBody ?? '').digest('hex');
+        const header = req.headers['x-admin-auth'] as string | undefined;
+        const wallet = header && verifySignedHeader(header, `x402-admin:${req.method} ${req.originalUrl}:${bodyHash}`);
+        if (wallet && wallets.includes(wallet)) {
+            return next();
+        }
+
+        res.status(401).json({ error: 'Unauthorized' });
+    });
+
+    router.get('/apis', (req: Request, res: Response) => {
+        res.json({ apis: options.listAPIs() });
+    });
+
+    router.patch('/apis/:name', (req: Request, res: Response) => {
+        const update: AdminAPIUpdate = {};
+        const { price, timeout, rateLimit } = req.body ?? {};
+
+        if (price !== undefined) {
+            if (typeof price !== 'number' || !(price >= 0)) {
+                return res.status(400).json({ error: 'price must be a non-negative number' });
+            }
+            update.price = price;
+        }
+        if (timeout !== undefined) {
+            if (typeof timeout !== 'number' || !(timeout > 0)) {
+                return res.status(400).json({ error: 'timeout must be a positive number of ms' });
+            }
+            update.timeout = timeout;
+        }
+        if (rateLimit !== undefined) {
+            // null removes the limit
+            if (rateLimit !== null && !isRateLimit(rateLimit)) {
+                return res.status(400).json({
+                    error: 'rateLimit must be a positive number, an object of positive limits, or null',
+                });
+            }
+            update.rateLimit = rateLimit ?? undefined;
+        }
+
+        if (!options.updateAPI(req.params.name, update)) {
+            return res.status(404).json({ error: `API not found: ${req.params.name}` });
+        }
+        res.json(options.listAPIs().find(api => api.name === req.params.name));
+    });
+
+    router.post('/apis/:name/enable', (req: Request, res: Response) => {
+        if (!options.setEnabled(req.params.name, true)) {
+            return res.status(404).json({ error: `API not found: ${req.params.name}` });
+        }
+        res.json({ name: req.params.name, enabled: true });
+    });
+
+    router.post('/apis/:name/disable', (req: Request, res: Response) => {
+        if (!options.setEnabled(req.params.name, false)) {
+            return res.status(404).json({ error: `API not found: ${req.params.name}` });
+        }
+        res.json({ name: req.params.name, enabled: false });
+    });
+
+    router.delete('/apis/:name', (req: Request, res: Response) => {
+        if (!options.removeAPI(req.params.name)) {
+            return res.status(404).json({ error: `API not found: ${req.params.name}` });
+        }
+        res.json({ name: req.params.name, removed: true });
+    });
+
+    router.post('/drain', async (req: Request, res: Response) => {
+        await options.setDraining(true);
+        const { inFlight, draining } = options.getStats();
+        res.json({ draining, inFlight });
+    });
+
+    router.post('/resume', async (req: Request, res: Response) => {
+        await options.setDraining(false);
+        const { inFlight, draining } = options.getStats();
+        res.json({ draining, inFlight });
+    });
+
+    router.get('/stats', (req: Request, res: Response) => {
+        res.json(options.getStats());
+    });
+
+    // Call ledger for accounting: ?from=&to=&api=&payer=&outcome=&format=csv
+    router.get('/ledger', async (req: Request, res: Response) => {
+        const { from, to, api, payer, outcome, format } = req.query as Record<string, string | undefined>;
+        if ([from, to].some(date => date && isNaN(Date.parse(date)))) {
+            return res.status(400).json({ error: 'from and to must be dates' });
+        }
+        if (outcome && outcome !== 'success' && outcome !== 'error') {
+            return res.status(400).json({ error: 'outcome must be success or error' });
+        }
+
+        const records = await callLedger.query({ from, to, api, payer, outcome: outcome as CallOutcome | undefined });
+
+        if (format === 'csv') {
+            res.setHeader('Content-Disposition', 'attachment; filename="ledger.csv"');
+            return res.type('text/csv').send(toCSV(records));
+        }
+
+        res.json({
+            calls: records,
+            count: records.length,
+            totalReceived: roundAmount(records.reduce((sum, r) => sum + r.amountReceived, 0)),
+            totalCharged: roundAmount(records.reduce((sum, r) => sum + r.priceCharged, 0)),
+        });
+    });
+
+    return router;
+}
+
+/**
+ * Compare a bearer token in constant time. Both sides are hashed first so the
+ * buffers have equal length and the comparison doesn't reveal the token's length.
+ */
+function isBearerToken(authorization: string | undefined, token: string): boolean {
+    if (!authorization?.startsWith('Bearer ')) {
+        return false;
+    }
+
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(authorization.slice('Bearer '.length)), digest(token));
+}
+
+/**
+ * Whether a value is a valid `APIConfig.rateLimit`: a positive number, or an object
+ * whose `requests`, `perPayer` and `windowMs` are positive numbers when present,
+ * with at least one limit set
+ */
+function isRateLimit(value: unknown): value is APIConfig['rateLimit'] {
+    const isPositive = (n: unknown) => typeof n === 'number' && Number.isFinite(n) && n > 0;
+
+    if (typeof value === 'number') {
+        return isPositive(value);
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return false;
+    }
+
+    const entries = Object.entries(value);
+    const known = ['requests', 'perPayer', 'windowMs'];
+    return (
+        entries.every(([key, n]) => known.includes(key) && isPositive(n)) &&
+        entries.some(([key]) => key === 'requests' || key === 'perPayer')
+    );
+}
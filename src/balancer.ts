@@ -0,0 +1,238 @@
+import { ProviderNodeError, UpstreamError } from './errors';
+import { defaultLogger } from './logger';
+import { createProxyHandler } from './proxy';
+import {
+    APIHandler,
+    BalancedAPIConfig,
+    BalanceStrategy,
+    BackendHealth,
+    CircuitState,
+    Logger,
+    RequestContext,
+    StreamingAPIHandler,
+} from './types';
+
+// Weight of the newest call in a backend's moving average latency
+const LATENCY_SMOOTHING = 0.2;
+
+interface Backend {
+    name: string;
+    weight: number;
+    handler: APIHandler | StreamingAPIHandler;
+    state: CircuitState;
+    openedAt: number;
+    trialInFlight: boolean;
+    /** Smooth weighted round-robin counter */
+    currentWeight: number;
+    requests: number;
+    failures: number;
+    consecutiveFailures: number;
+    averageLatency: number;
+    lastError?: string;
+    lastFailureAt?: string;
+}
+
+/**
+ * Backends of one API with health tracking and a circuit breaker per backend.
+ *
+ * A backend's circuit opens after `failureThreshold` consecutive failures and it
+ * gets no traffic until `cooldown` has passed. Then one trial call is let through:
+ * success closes the circuit, failure opens it again.
+ */
+export class BackendPool {
+    private api: string;
+    private backends: Backend[];
+    private strategy: BalanceStrategy;
+    private retries: number;
+    private failureThreshold: number;
+    private cooldownMs: number;
+    private logger: Logger;
+
+    constructor(api: string, config: BalancedAPIConfig, logger: Logger = defaultLogger) {
+        if (config.backends.length === 0) {
+            throw new ProviderNodeError(`Balanced API ${api} needs at least one backend`);
+        }
+
+        this.api = api;
+        this.strategy = config.strategy ?? 'round-robin';
+        this.retries = config.retries ?? config.backends.length - 1;
+        this.failureThreshold = config.failureThreshold ?? 5;
+        this.cooldownMs = (config.cooldown ?? 30) * 1000;
+        this.logger = logger;
+        this.backends = config.backends.map(backend => {
+            const { name, weight = 1, handler, ...proxyConfig } = backend;
+            if (!handler && !proxyConfig.upstream) {
+                throw new ProviderNodeError(`Backend ${name} of ${api} needs a handler or an upstream`);
+            }
+
+            return {
+                name,
+                weight,
+                handler:
+                    handler ??
+                    createProxyHandler(`${api}/${name}`, {
+                        ...proxyConfig,
+                        upstream: proxyConfig.upstream!,
+                        stream: config.stream,
+                    }),
+                state: 'closed',
+                openedAt: 0,
+                trialInFlight: false,
+                currentWeight: 0,
+                requests: 0,
+                failures: 0,
+                consecutiveFailures: 0,
+                averageLatency: 0,
+            };
+        });
+    }
+
+    /**
+     * Run a call on a backend, retrying on other backends when it fails
+     */
+    call = async (params: Record<string, unknown>, context: RequestContext): Promise<unknown> => {
+        const tried = new Set<Backend>();
+        let lastError: unknown;
+
+        for (let attempt = 0; attempt <= this.retries; attempt++) {
+            const backend = this.select(tried);
+            if (!backend) {
+                break;
+            }
+            tried.add(backend);
+
+            const startTime = Date.now();
+            backend.requests++;
+            try {
+                const result = await backend.handler(params, {
+                    ...context,
+                    logger: context.logger.child({ backend: backend.name }),
+                });
+                this.recordSuccess(backend, Date.now() - startTime);
+                return result;
+            } catch (error) {
+                // Aborted calls and the caller's own mistakes say nothing about the backend
+                if (context.signal.aborted || !isBackendFailure(error)) {
+                    backend.trialInFlight = false;
+                    throw error;
+                }
+
+                this.recordFailure(backend, error);
+                lastError = error;
+                context.logger.warn('Backend failed', { backend: backend.name, attempt, err: error });
+            }
+        }
+
+        throw lastError ?? new UpstreamError(`No healthy backend for ${this.api}`, 503);
+    };
+
+    /**
+     * Health of each backend
+     */
+    health(): BackendHealth[] {
+        return this.backends.map(backend => ({
+            name: backend.name,
+            weight: backend.weight,
+            state: backend.state,
+            requests: backend.requests,
+            failures: backend.failures,
+            consecutiveFailures: backend.consecutiveFailures,
+            averageLatency: backend.averageLatency,
+            lastError: backend.lastError,
+            lastFailureAt: backend.lastFailureAt,
+        }));
+    }
+
+    private select(exclude: Set<Backend>): Backend | undefined {
+        const now = Date.now();
+        const available = this.backends.filter(backend => !exclude.has(backend) && this.isAvailable(backend, now));
+        if (available.length === 0) {
+            return undefined;
+        }
+
+        const backend = this.strategy === 'least-latency' ? leastLatency(available) : roundRobin(available);
+        if (backend.state !== 'closed') {
+            backend.state = 'half-open';
+            backend.trialInFlight = true;
+        }
+        return backend;
+    }
+
+    private isAvailable(backend: Backend, now: number): boolean {
+        switch (backend.state) {
+            case 'closed':
+                return true;
+            case 'open':
+                return now - backend.openedAt >= this.cooldownMs;
+            case 'half-open':
+                return !backend.trialInFlight;
+        }
+    }
+
+    private recordSuccess(backend: Backend, latency: number): void {
+        backend.averageLatency =
+            backend.averageLatency === 0
+                ? latency
+                : backend.averageLatency + LATENCY_SMOOTHING * (latency - backend.averageLatency);
+        backend.consecutiveFailures = 0;
+        backend.trialInFlight = false;
+
+        if (backend.state !== 'closed') {
+            backend.state = 'closed';
+            this.logger.info('Backend recovered', { api: this.api, backend: backend.name });
+        }
+    }
+
+    private recordFailure(backend: Backend, error: unknown): void {
+        backend.failures++;
+        backend.consecutiveFailures++;
+        backend.lastError = error instanceof Error ? error.message : String(error);
+        backend.lastFailureAt = new Date().toISOString();
+        backend.trialInFlight = false;
+
+        if (backend.state === 'half-open' || backend.consecutiveFailures >= this.failureThreshold) {
+            if (backend.state !== 'open') {
+                this.logger.warn('Backend circuit opened', {
+                    api: this.api,
+                    backend: backend.name,
+                    consecutiveFailures: backend.consecutiveFailures,
+                });
+            }
+            backend.state = 'open';
+            backend.openedAt = Date.now();
+        }
+    }
+}
+
+/**
+ * Whether an error counts against a backend's health. Upstream 4xx responses are
+ * mapped to a 400: the params were rejected, and another backend would reject them too.
+ */
+function isBackendFailure(error: unknown): boolean {
+    return !(error instanceof UpstreamError && error.statusCode < 500);
+}
+
+/**
+ * Smooth weighted round-robin: spreads each backend's share evenly instead of in bursts
+ */
+function roundRobin(backends: Backend[]): Backend {
+    const totalWeight = backends.reduce((sum, backend) => sum + backend.weight, 0);
+    let selected = backends[0];
+    for (const backend of backends) {
+        backend.currentWeight += backend.weight;
+        if (backend.currentWeight > selected.currentWeight) {
+            selected = backend;
+        }
+    }
+    selected.currentWeight -= totalWeight;
+    return selected;
+}
+
+/**
+ * The fastest backend; ones without a successful call yet go first so they get measured
+ */
+function leastLatency(backends: Backend[]): Backend {
+    return backends.reduce((fastest, backend) =>
+        backend.averageLatency < fastest.averageLatency ? backend : fastest
+    );
+}
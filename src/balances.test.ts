@@ -0,0 +1,88 @@
+import { MemoryBalanceStore, holdFunds } from './balances';
+
+describe('holdFunds', () => {
+    let store: MemoryBalanceStore;
+
+    beforeEach(() => {
+        store = new MemoryBalanceStore();
+    });
+
+    it('covers the price from the payment alone, leaving the balance untouched', async () => {
+        await store.credit('payer', 1);
+
+        const hold = await holdFunds(store, 'payer', 0.1, 0.1);
+
+        expect(hold?.held).toBe(0);
+        expect(await store.get('payer')).toBe(1);
+    });
+
+    it('tops the payment up from the prepaid balance', async () => {
+        await store.credit('payer', 1);
+
+        const hold = await holdFunds(store, 'payer', 0.1, 0.04);
+
+        expect(hold?.held).toBe(0.06);
+        expect(await store.get('payer')).toBe(0.94);
+    });
+
+    it('resolves to undefined and keeps the balance when the payer is short', async () => {
+        await store.credit('payer', 0.05);
+
+        expect(await holdFunds(store, 'payer', 0.1, 0.01)).toBeUndefined();
+        expect(await store.get('payer')).toBe(0.05);
+    });
+
+    it('credits what a cheaper call left unused', async () => {
+        const hold = await holdFunds(store, 'payer', 0.1, 0.25);
+
+        const settlement = await hold!.settle(0.08);
+
+        expect(settlement).toEqual({ charged: 0.08, balance: 0.17 });
+    });
+
+    it('draws a costlier call from the balance as far as it goes', async () => {
+        await store.credit('payer', 0.05);
+        const hold = await holdFunds(store, 'payer', 0.1, 0.1);
+
+        const settlement = await hold!.settle(0.2);
+
+        expect(settlement).toEqual({ charged: 0.15, balance: 0 });
+    });
+
+    it('returns only the held balance on release', async () => {
+        await store.credit('payer', 1);
+        const hold = await holdFunds(store, 'payer', 0.1, 0.03);
+
+        await hold!.release();
+
+        expect(await store.get('payer')).toBe(1);
+    });
+
+    it('needs the payment alone to cover the price without a store, and credits nothing', async () => {
+        expect(await holdFunds(undefined, 'payer', 0.1, 0.05)).toBeUndefined();
+
+        const cheaper = await holdFunds(undefined, 'payer', 0.1, 0.25);
+        const costlier = await holdFunds(undefined, 'payer', 0.1, 0.25);
+
+        expect(await cheaper!.settle(0.08)).toEqual({ charged: 0.08 });
+        expect(await costlier!.settle(0.4)).toEqual({ charged: 0.25 });
+    });
+});
+
+describe('MemoryBalanceStore', () => {
+    it('debits no more than the balance', async () => {
+        const store = new MemoryBalanceStore();
+        await store.credit('payer', 0.3);
+
+        expect(await store.debit('payer', 0.5)).toEqual({ debited: 0.3, balance: 0 });
+    });
+
+    it('rounds to USDC precision', async () => {
+        const store = new MemoryBalanceStore();
+        for (let i = 0; i < 10; i++) {
+            await store.credit('payer', 0.1);
+        }
+
+        expect(await store.get('payer')).toBe(1);
+    });
+});
@@ -0,0 +1,161 @@
+import { existsSync, readFileSync } from 'fs';
+import { BalanceStore } from './types';
+import { createSignedHeaderVerifier, writeFileAtomic } from './utils';
+
+/**
+ * Round to USDC precision so repeated credits and debits don't drift
+ */
+export function roundAmount(amount: number): number {
+    return Math.round(amount * 1_000_000) / 1_000_000;
+}
+
+/**
+ * In-memory prepaid balances. Balances are lost on restart.
+ */
+export class MemoryBalanceStore implements BalanceStore {
+    protected balances = new Map<string, number>();
+
+    async get(wallet: string): Promise<number> {
+        return this.balances.get(wallet) ?? 0;
+    }
+
+    async credit(wallet: string, amount: number): Promise<number> {
+        const balance = roundAmount((this.balances.get(wallet) ?? 0) + amount);
+        this.balances.set(wallet, balance);
+        this.persist();
+        return balance;
+    }
+
+    async debit(wallet: string, amount: number): Promise<{ debited: number; balance: number }> {
+        const current = this.balances.get(wallet) ?? 0;
+        const debited = roundAmount(Math.min(current, amount));
+        const balance = roundAmount(current - debited);
+        this.balances.set(wallet, balance);
+        this.persist();
+        return { debited, balance };
+    }
+
+    /**
+     * Hook for subclasses that write balances to durable storage
+     */
+    protected persist(): void {
+        // Nothing to do in memory
+    }
+}
+
+/**
+ * Prepaid balances backed by a JSON file, rewritten atomically on every change
+ */
+export class FileBalanceStore extends MemoryBalanceStore {
+    private path: string;
+
+    constructor(path: string) {
+        super();
+        this.path = path;
+
+        if (existsSync(path)) {
+            try {
+                const balances: Record<string, number> = JSON.parse(readFileSync(path, 'utf-8'));
+                this.balances = new Map(Object.entries(balances));
+            } catch (error) {
+                throw new Error(`Failed to load balances from ${path}: ${error}`);
+            }
+        }
+    }
+
+    protected persist(): void {
+        writeFileAtomic(this.path, JSON.stringify(Object.fromEntries(this.balances), null, 2));
+    }
+}
+
+/**
+ * What a call was charged and what the payer has left
+ */
+export interface Settlement {
+    charged: number;
+    /** Remaining prepaid balance */
+    balance?: number;
+    /** Remaining session allowance */
+    session?: { callsRemaining: number; budgetRemaining: number };
+}
+
+/**
+ * Funds set aside for a call before its handler runs
+ */
+export interface FundsHold {
+    /** Prepaid balance set aside, returned on release */
+    held: number;
+
+    /** Charge the real cost of the call */
+    settle: (cost: number) => Promise<Settlement>;
+
+    /** Give back what was set aside after a failed call */
+    release: () => Promise<void>;
+}
+
+/**
+ * Set aside enough funds to cover the upfront price of a call from the amount
+ * paid on-chain with the request, topped up from the payer's prepaid balance.
+ * Resolves to undefined, leaving the balance untouched, if the payer can't cover it.
+ *
+ * On settlement, whatever the hold doesn't use is credited to the balance, and a
+ * shortfall is drawn from the balance as far as it goes. On release only the
+ * balance portion is returned; the on-chain payment is handled by the ledger.
+ * Without a store the payment alone must cover the price, and nothing is credited.
+ */
+export async function holdFunds(
+    store: BalanceStore | undefined,
+    payer: string,
+    price: number,
+    paid: number
+): Promise<FundsHold | undefined> {
+    const needed = roundAmount(Math.max(0, price - paid));
+    let held = 0;
+
+    if (needed > 0) {
+        if (!store) {
+            return undefined;
+        }
+        const { debited } = await store.debit(payer, needed);
+        if (debited < needed) {
+            await store.credit(payer, debited);
+            return undefined;
+        }
+        held = debited;
+    }
+
+    const funds = roundAmount(paid + held);
+
+    return {
+        held,
+
+        async settle(cost: number): Promise<Settlement> {
+            if (!store) {
+                return { charged: roundAmount(Math.min(cost, funds)) };
+            }
+            if (cost <= funds) {
+                const balance = await store.credit(payer, funds - cost);
+                return { charged: roundAmount(cost), balance };
+            }
+
+            const { debited, balance } = await store.debit(payer, cost - funds);
+            return { charged: roundAmount(funds + debited), balance };
+        },
+
+        async release(): Promise<void> {
+            if (store && held > 0) {
+                await store.credit(payer, held);
+            }
+        },
+    };
+}
+
+/**
+ * Verify an `X-Payer-Auth` header of the form `<wallet>:<timestamp>:<base64 signature>`,
+ * where the wallet signed `x402-balance:<wallet>:<timestamp>`.
+ * Resolves to the wallet address, or undefined if the header is invalid, stale or replayed.
+ */
+export function createPayerAuthVerifier(): (header: string) => string | undefined {
+    const verify = createSignedHeaderVerifier();
+    return (header: string) => verify(header, 'x402-balance');
+}
@@ -0,0 +1,69 @@
+import { createHash } from 'crypto';
+import { CacheStore } from './types';
+
+/** Results kept per API when `maxEntries` isn't set */
+export const DEFAULT_CACHE_ENTRIES = 1000;
+
+/**
+ * In-memory LRU cache with a separate size limit per API. Entries are per process.
+ */
+export class MemoryCacheStore implements CacheStore {
+    private apis = new Map<string, Map<string, { value: unknown; expiresAt: number }>>();
+
+    async get(api: string, key: string): Promise<unknown> {
+        const entries = this.apis.get(api);
+        const entry = entries?.get(key);
+        if (!entries || !entry) {
+            return undefined;
+        }
+
+        entries.delete(key);
+        if (entry.expiresAt <= Date.now()) {
+            return undefined;
+        }
+
+        // Re-insert so the map's order stays least to most recently used
+        entries.set(key, entry);
+        return entry.value;
+    }
+
+    async set(api: string, key: string, value: unknown, ttlMs: number, maxEntries: number): Promise<void> {
+        let entries = this.apis.get(api);
+        if (!entries) {
+            entries = new Map();
+            this.apis.set(api, entries);
+        }
+
+        entries.delete(key);
+        entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+        for (const oldest of entries.keys()) {
+            if (entries.size <= maxEntries) {
+                break;
+            }
+            entries.delete(oldest);
+        }
+    }
+}
+
+/**
+ * Cache key for a call: a hash of the params with object keys sorted,
+ * so `{ a, b }` and `{ b, a }` share an entry
+ */
+export function cacheKey(params: Record<string, unknown>): string {
+    return createHash('sha256').update(canonicalJSON(params)).digest('hex');
+}
+
+function canonicalJSON(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(item => canonicalJSON(item ?? null)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value)
+            .sort()
+            .filter(key => (value as any)[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${canonicalJSON((value as any)[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,206 @@
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+import { CallLedger, CallLedgerQuery, CallRecord } from './types';
+
+// Column order for CSV export
+const CSV_COLUMNS: Array<keyof CallRecord> = [
+    'timestamp',
+    'requestId',
+    'api',
+    'payer',
+    'chain',
+    'mint',
+    'signature',
+    'amountReceived',
+    'priceCharged',
+    'latency',
+    'outcome',
+    'error',
+];
+
+/**
+ * In-memory call ledger. Records are lost on restart.
+ */
+export class MemoryCallLedger implements CallLedger {
+    protected records: CallRecord[] = [];
+
+    async append(record: CallRecord): Promise<void> {
+        this.records.push({ ...record });
+    }
+
+    async query(filter: CallLedgerQuery = {}): Promise<CallRecord[]> {
+        return this.records.filter(matches(filter)).map(record => ({ ...record }));
+    }
+}
+
+/**
+ * Call ledger backed by an append-only JSON Lines file
+ */
+export class JsonlCallLedger implements CallLedger {
+    private path: string;
+
+    constructor(path: string) {
+        this.path = path;
+    }
+
+    async append(record: CallRecord): Promise<void> {
+        appendFileSync(this.path, `${JSON.stringify(record)}\n`);
+    }
+
+    async query(filter: CallLedgerQuery = {}): Promise<CallRecord[]> {
+        if (!existsSync(this.path)) {
+            return [];
+        }
+
+        return readFileSync(this.path, 'utf-8')
+            .split('\n')
+            .filter(line => line.trim())
+            .map(line => JSON.parse(line) as CallRecord)
+            .filter(matches(filter));
+    }
+}
+
+/**
+ * Call ledger backed by SQLite.
+ * Requires the optional `better-sqlite3` dependency.
+ */
+export class SqliteCallLedger implements CallLedger {
+    private db: any;
+
+    constructor(path: string) {
+        let Database: any;
+        try {
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            Database = require('better-sqlite3');
+        } catch {
+            throw new Error('SqliteCallLedger requires the "better-sqlite3" package to be installed');
+        }
+
+        this.db = new Database(path);
+        this.db.pragma('journal_mode = WAL');
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS calls (
+                request_id TEXT PRIMARY KEY,
+                timestamp TEXT NOT NULL,
+                api TEXT NOT NULL,
+                payer TEXT NOT NULL,
+                signature TEXT,
+                chain TEXT NOT NULL,
+                mint TEXT,
+                amount_received REAL NOT NULL,
+                price_charged REAL NOT NULL,
+                latency INTEGER NOT NULL,
+                outcome TEXT NOT NULL,
+                error TEXT
+            );
+            CREATE INDEX IF NOT EXISTS calls_timestamp ON calls (timestamp);
+        `);
+    }
+
+    async append(record: CallRecord): Promise<void> {
+        this.db
+            .prepare(
+                `INSERT OR REPLACE INTO calls
+                    (request_id, timestamp, api, payer, signature, chain, mint,
+                     amount_received, price_charged, latency, outcome, error)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+            )
+            .run(
+                record.requestId,
+                record.timestamp,
+                record.api,
+                record.payer,
+                record.signature ?? null,
+                record.chain,
+                record.mint ?? null,
+                record.amountReceived,
+                record.priceCharged,
+                record.latency,
+                record.outcome,
+                record.error ?? null
+            );
+    }
+
+    async query(filter: CallLedgerQuery = {}): Promise<CallRecord[]> {
+        const conditions: string[] = [];
+        const values: unknown[] = [];
+
+        if (filter.from) {
+            conditions.push('timestamp >= ?');
+            values.push(toISOString(filter.from));
+        }
+        if (filter.to) {
+            conditions.push('timestamp <= ?');
+            values.push(toISOString(filter.to));
+        }
+        for (const [column, value] of [
+            ['api', filter.api],
+            ['payer', filter.payer],
+            ['outcome', filter.outcome],
+        ]) {
+            if (value) {
+                conditions.push(`${column} = ?`);
+                values.push(value);
+            }
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        const rows = this.db.prepare(`SELECT * FROM calls ${where} ORDER BY timestamp`).all(...values);
+
+        return rows.map((row: any) => ({
+            requestId: row.request_id,
+            timestamp: row.timestamp,
+            api: row.api,
+            payer: row.payer,
+            signature: row.signature ?? undefined,
+            chain: row.chain,
+            mint: row.mint ?? undefined,
+            amountReceived: row.amount_received,
+            priceCharged: row.price_charged,
+            latency: row.latency,
+            outcome: row.outcome,
+            error: row.error ?? undefined,
+        }));
+    }
+
+    /**
+     * Close the underlying database
+     */
+    close(): void {
+        this.db.close();
+    }
+}
+
+/**
+ * Render call records as CSV with a header row.
+ * Text cells that a spreadsheet would run as a formula are prefixed with `'`.
+ */
+export function toCSV(records: CallRecord[]): string {
+    const escape = (value: unknown): string => {
+        let text = value === undefined || value === null ? '' : String(value);
+        // API names, errors and payers come from callers; numbers are left as they are
+        if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+            text = `'${text}`;
+        }
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return [CSV_COLUMNS.join(','), ...records.map(record => CSV_COLUMNS.map(c => escape(record[c])).join(','))]
+        .join('\n')
+        .concat('\n');
+}
+
+function matches(filter: CallLedgerQuery): (record: CallRecord) => boolean {
+    const from = filter.from ? toISOString(filter.from) : undefined;
+    const to = filter.to ? toISOString(filter.to) : undefined;
+
+    return record =>
+        (!from || record.timestamp >= from) &&
+        (!to || record.timestamp <= to) &&
+        (!filter.api || record.api === filter.api) &&
+        (!filter.payer || record.payer === filter.payer) &&
+        (!filter.outcome || record.outcome === filter.outcome);
+}
+
+function toISOString(date: Date | string): string {
+    return new Date(date).toISOString();
+}
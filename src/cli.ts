@@ -0,0 +1,269 @@
+#!/usr/bin/env node
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { CHAIN_CONFIGS } from '@x402apis/protocol';
+import { existsSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { parseArgs } from 'util';
+import { toCSV } from './call-ledger';
+import {
+    DEFAULT_CONFIG_FILE,
+    NodeConfigFile,
+    createServerFromConfig,
+    loadConfigFile,
+    openCallLedger,
+    resolveWallet,
+} from './config';
+import { DEFAULT_ACCEPTED_MINTS, closeConnection, getTokenProgramId } from './solana-verifier';
+import { CallOutcome } from './types';
+import { loadWallet } from './utils';
+import { DEFAULT_PASSPHRASE_ENV, encryptKeystore, loadWalletFromEnv, walletAddress } from './wallet';
+
+const USAGE = `Usage: x402-node <command> [options]
+
+Commands:
+  init [dir]          Generate a wallet, config file and example API module
+  start               Start the provider node
+  wallet balance      Show the earnings wallet's token balances
+  wallet encrypt      Write the wallet to a passphrase-encrypted keystore
+  apis list           List APIs from the config, or from a running node with --url
+  ledger export       Export the call ledger
+
+Options:
+  -c, --config <path>  Config file (default: ${DEFAULT_CONFIG_FILE})
+  -h, --help           Show this help
+
+init:           --force          Overwrite existing files
+wallet encrypt: --out <path>     Keystore file (default: wallet.keystore.json);
+                                 the passphrase is read from ${DEFAULT_PASSPHRASE_ENV}
+apis list:      --url <url>      Query a running node instead of the config
+ledger export:  --from <date> --to <date> --api <name> --payer <wallet>
+                --outcome <success|error> --format <csv|json> --out <path>
+`;
+
+const EXAMPLE_API = `// Example API handler: receives the call params and returns the result
+module.exports = async function echo(params, context) {
+    return { echo: params, requestId: context.requestId };
+};
+`;
+
+async function main(argv: string[]): Promise<void> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            config: { type: 'string', short: 'c', default: DEFAULT_CONFIG_FILE },
+            help: { type: 'boolean', short: 'h' },
+            force: { type: 'boolean' },
+            url: { type: 'string' },
+            from: { type: 'string' },
+            to: { type: 'string' },
+            api: { type: 'string' },
+            payer: { type: 'string' },
+            outcome: { type: 'string' },
+            format: { type: 'string', default: 'csv' },
+            out: { type: 'string' },
+        },
+    });
+    const [command, subcommand] = positionals;
+
+    if (values.help || !command) {
+        process.stdout.write(USAGE);
+        return;
+    }
+
+    // `init [dir]` is the only command taking an argument
+    if (command === 'init' && positionals.length <= 2) {
+        return init(resolve(subcommand ?? '.'), values.force ?? false);
+    }
+
+    switch (positionals.join(' ')) {
+        case 'start':
+            return start(values.config!);
+        case 'wallet balance':
+            return walletBalance(values.config!);
+        case 'wallet encrypt':
+            return encryptWallet(values.config!, values.out);
+        case 'apis list':
+            return listAPIs(values.config!, values.url);
+        case 'ledger export':
+            return exportLedger(values.config!, values);
+        default:
+            throw new Error(`Unknown command: ${positionals.join(' ')}\n\n${USAGE}`);
+    }
+}
+
+/**
+ * Generate a wallet, a config file and an example API module
+ */
+async function init(dir: string, force: boolean): Promise<void> {
+    const walletPath = join(dir, 'wallet.json');
+    const configPath = join(dir, DEFAULT_CONFIG_FILE);
+    const modulePath = join(dir, 'echo.js');
+
+    if (!force) {
+        const existing = [walletPath, configPath, modulePath].filter(path => existsSync(path));
+        if (existing.length > 0) {
+            throw new Error(`Refusing to overwrite ${existing.join(', ')} (use --force)`);
+        }
+    }
+
+    const wallet = Keypair.generate();
+    writeFileSync(walletPath, JSON.stringify(Array.from(wallet.secretKey)), { mode: 0o600 });
+
+    const config: NodeConfigFile = {
+        wallet: 'wallet.json',
+        port: 3000,
+        paymentLedger: 'payments.jsonl',
+        callLedger: 'calls.jsonl',
+        apis: [{ name: 'example.echo', module: './echo.js', price: 0.001, description: 'Echoes its params' }],
+    };
+    writeFileSync(configPath, `${JSON.stringify(config, null, 4)}\n`);
+    writeFileSync(modulePath, EXAMPLE_API);
+
+    console.log(`Created ${walletPath}, ${configPath} and ${modulePath}`);
+    console.log(`Earnings wallet: ${wallet.publicKey.toBase58()}`);
+    console.log('Keep wallet.json secret. Run `x402-node start` to go live.');
+}
+
+/**
+ * Start the node described by a config file. Ctrl-C drains in-flight calls.
+ */
+async function start(configPath: string): Promise<void> {
+    const config = loadConfigFile(configPath);
+    config.file.shutdown = { handleSignals: true, ...config.file.shutdown };
+
+    const server = createServerFromConfig(config);
+    await server.start();
+}
+
+/**
+ * Print the earnings wallet's balance of each accepted token
+ */
+async function walletBalance(configPath: string): Promise<void> {
+    const config = loadConfigFile(configPath);
+    const { file } = config;
+    const address = walletAddress(resolveWallet(config));
+    const connection = new Connection(file.payment?.solanaRpcEndpoint ?? CHAIN_CONFIGS.solana.rpcEndpoint);
+
+    console.log(`Wallet: ${address.toBase58()}`);
+    try {
+        for (const accepted of file.payment?.mints ?? DEFAULT_ACCEPTED_MINTS) {
+            const account = getAssociatedTokenAddressSync(
+                new PublicKey(accepted.mint),
+                address,
+                false,
+                getTokenProgramId(accepted)
+            );
+
+            // A missing token account just means nothing has been received yet
+            const balance = await connection.getTokenAccountBalance(account).then(
+                result => result.value.uiAmountString ?? '0',
+                () => '0'
+            );
+            console.log(`${accepted.symbol ?? accepted.mint}: ${balance}`);
+        }
+    } finally {
+        closeConnection(connection);
+    }
+}
+
+/**
+ * Encrypt the config's plaintext wallet into a keystore file
+ */
+async function encryptWallet(configPath: string, out?: string): Promise<void> {
+    const config = loadConfigFile(configPath);
+    const source = resolveWallet(config);
+    if (typeof source !== 'string' && !('env' in source)) {
+        throw new Error('The wallet in the config is already encrypted or held by a signer');
+    }
+
+    const passphrase = process.env[DEFAULT_PASSPHRASE_ENV];
+    if (!passphrase) {
+        throw new Error(`Set ${DEFAULT_PASSPHRASE_ENV} to the passphrase to encrypt with`);
+    }
+
+    const keypair = typeof source === 'string' ? loadWallet(source) : loadWalletFromEnv(source.env);
+    const keystoreFile = out ?? 'wallet.keystore.json';
+    const keystorePath = resolve(config.baseDir, keystoreFile);
+    if (existsSync(keystorePath)) {
+        throw new Error(`Refusing to overwrite ${keystorePath}`);
+    }
+
+    const keystore = encryptKeystore(keypair, passphrase);
+    writeFileSync(keystorePath, `${JSON.stringify(keystore, null, 4)}\n`, { mode: 0o600 });
+
+    console.log(`Created ${keystorePath} for ${keystore.address}`);
+    console.log(`Set "wallet": { "keystore": "${keystoreFile}" } in the config, then delete the plaintext key.`);
+}
+
+/**
+ * List APIs from the config file, or from a running node's /apis endpoint
+ */
+async function listAPIs(configPath: string, url?: string): Promise<void> {
+    let apis: Array<{ name: string; price: number; description?: string }>;
+
+    if (url) {
+        const response = await fetch(new URL('/apis', url));
+        if (!response.ok) {
+            throw new Error(`${url} responded with ${response.status}`);
+        }
+        apis = ((await response.json()) as { apis: typeof apis }).apis;
+    } else {
+        apis = (loadConfigFile(configPath).file.apis ?? []).map(api => ({
+            name: api.name,
+            price: api.price ?? 0,
+            description: api.description,
+        }));
+    }
+
+    if (apis.length === 0) {
+        console.log('No APIs');
+        return;
+    }
+
+    const width = Math.max(...apis.map(api => api.name.length));
+    for (const api of apis) {
+        console.log(`${api.name.padEnd(width)}  ${api.price} USDC${api.description ? `  ${api.description}` : ''}`);
+    }
+}
+
+/**
+ * Export the configured call ledger as CSV or JSON
+ */
+async function exportLedger(configPath: string, options: Record<string, string | boolean | undefined>): Promise<void> {
+    const { from, to, api, payer, outcome, format, out } = options as Record<string, string | undefined>;
+    if ([from, to].some(date => date && isNaN(Date.parse(date)))) {
+        throw new Error('--from and --to must be dates');
+    }
+    if (outcome && outcome !== 'success' && outcome !== 'error') {
+        throw new Error('--outcome must be success or error');
+    }
+    if (format !== 'csv' && format !== 'json') {
+        throw new Error('--format must be csv or json');
+    }
+
+    const ledger = openCallLedger(loadConfigFile(configPath));
+    if (!ledger) {
+        throw new Error('The config has no "callLedger" file to export');
+    }
+
+    try {
+        const records = await ledger.query({ from, to, api, payer, outcome: outcome as CallOutcome | undefined });
+        const output = format === 'csv' ? toCSV(records) : `${JSON.stringify(records, null, 2)}\n`;
+
+        if (out) {
+            writeFileSync(out, output);
+            console.error(`Exported ${records.length} calls to ${out}`);
+        } else {
+            process.stdout.write(output);
+        }
+    } finally {
+        await ledger.close?.();
+    }
+}
+
+main(process.argv.slice(2)).catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,68 @@
+import { ConcurrencyLimiter } from './concurrency';
+import { APIOverloadedError } from './errors';
+
+describe('ConcurrencyLimiter', () => {
+    it('hands out up to maxConcurrency slots', async () => {
+        const limiter = new ConcurrencyLimiter('test.echo', 2);
+
+        await limiter.acquire();
+        await limiter.acquire();
+
+        expect(limiter.load()).toMatchObject({ active: 2, queued: 0, saturated: true });
+        await expect(limiter.acquire()).rejects.toThrow(APIOverloadedError);
+    });
+
+    it('queues calls and gives freed slots to the oldest first', async () => {
+        const limiter = new ConcurrencyLimiter('test.echo', 1, 2);
+        const release = await limiter.acquire();
+        const order: string[] = [];
+
+        const first = limiter.acquire().then(releaseFirst => {
+            order.push('first');
+            return releaseFirst;
+        });
+        const second = limiter.acquire().then(() => order.push('second'));
+        expect(limiter.load()).toMatchObject({ active: 1, queued: 2, saturated: true });
+
+        release();
+        const releaseFirst = await first;
+        expect(order).toEqual(['first']);
+        expect(limiter.load()).toMatchObject({ active: 1, queued: 1 });
+
+        releaseFirst();
+        await second;
+        expect(order).toEqual(['first', 'second']);
+    });
+
+    it('frees a slot only once per release', async () => {
+        const limiter = new ConcurrencyLimiter('test.echo', 2);
+        const release = await limiter.acquire();
+        await limiter.acquire();
+
+        release();
+        release();
+
+        expect(limiter.load().active).toBe(1);
+    });
+
+    it('times out calls that wait too long', async () => {
+        const limiter = new ConcurrencyLimiter('test.echo', 1, 1, 10);
+        await limiter.acquire();
+
+        await expect(limiter.acquire()).rejects.toThrow('Timed out waiting for a free slot: test.echo');
+        expect(limiter.load().queued).toBe(0);
+    });
+
+    it('drops a queued call when its signal aborts', async () => {
+        const limiter = new ConcurrencyLimiter('test.echo', 1, 1);
+        const release = await limiter.acquire();
+        const controller = new AbortController();
+
+        const waiting = limiter.acquire(controller.signal);
+        controller.abort(new Error('Client disconnected'));
+
+        await expect(waiting).rejects.toThrow('Client disconnected');
+        release();
+        expect(limiter.load()).toMatchObject({ active: 0, queued: 0 });
+    });
+});
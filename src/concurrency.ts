@@ -0,0 +1,100 @@
+import { APIOverloadedError } from './errors';
+import { APILoad } from './types';
+
+/**
+ * Caps the calls of one API running at once, with a bounded queue for the rest.
+ * Freed slots go to queued calls first, oldest first.
+ */
+export class ConcurrencyLimiter {
+    private api: string;
+    private maxConcurrency: number;
+    private maxQueue: number;
+    private queueTimeoutMs: number;
+    private active = 0;
+    private waiting: Array<() => void> = [];
+
+    constructor(api: string, maxConcurrency: number, maxQueue = 0, queueTimeoutMs = 10000) {
+        this.api = api;
+        this.maxConcurrency = maxConcurrency;
+        this.maxQueue = maxQueue;
+        this.queueTimeoutMs = queueTimeoutMs;
+    }
+
+    /**
+     * Whether a new call would be turned away right now
+     */
+    isSaturated(): boolean {
+        return this.active >= this.maxConcurrency && this.waiting.length >= this.maxQueue;
+    }
+
+    load(): APILoad {
+        return {
+            active: this.active,
+            queued: this.waiting.length,
+            maxConcurrency: this.maxConcurrency,
+            maxQueue: this.maxQueue,
+            saturated: this.isSaturated(),
+        };
+    }
+
+    /**
+     * Take a slot, waiting in the queue if none is free. Resolves to a function that
+     * frees the slot; rejects with `APIOverloadedError` if the queue is full or the
+     * wait times out, or with the signal's reason if it aborts first.
+     */
+    async acquire(signal?: AbortSignal): Promise<() => void> {
+        if (signal?.aborted) {
+            throw signal.reason;
+        }
+        if (this.active < this.maxConcurrency) {
+            this.active++;
+            return this.releaser();
+        }
+        if (this.waiting.length >= this.maxQueue) {
+            throw new APIOverloadedError(`API is at capacity: ${this.api}`);
+        }
+
+        await new Promise<void>((resolve, reject) => {
+            const done = () => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+                this.waiting = this.waiting.filter(waiter => waiter !== grant);
+            };
+            const grant = () => {
+                done();
+                resolve();
+            };
+            const onAbort = () => {
+                done();
+                reject(signal!.reason);
+            };
+            const timer = setTimeout(() => {
+                done();
+                reject(new APIOverloadedError(`Timed out waiting for a free slot: ${this.api}`));
+            }, this.queueTimeoutMs);
+
+            this.waiting.push(grant);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+
+        return this.releaser();
+    }
+
+    private releaser(): () => void {
+        let released = false;
+        return () => {
+            if (released) {
+                return;
+            }
+            released = true;
+
+            // Hand the slot straight to the next queued call
+            const next = this.waiting.shift();
+            if (next) {
+                next();
+            } else {
+                this.active--;
+            }
+        };
+    }
+}
@@ -0,0 +1,248 @@
+import { readFileSync } from 'fs';
+import { dirname, extname, resolve } from 'path';
+import { FileBalanceStore } from './balances';
+import { JsonlCallLedger, SqliteCallLedger } from './call-ledger';
+import { createJsonLogger } from './logger';
+import { FilePaymentLedger, SqlitePaymentLedger } from './payment-ledger';
+import { createProviderServer } from './server';
+import { FileSessionStore } from './sessions';
+import {
+    APIConfig,
+    APIHandler,
+    BackendConfig,
+    BalancedAPIConfig,
+    CallLedger,
+    LogLevel,
+    ProviderServer,
+    ProxyAPIConfig,
+    ServerConfig,
+    StreamingAPIHandler,
+    WalletSource,
+} from './types';
+
+/** Config file used when none is given */
+export const DEFAULT_CONFIG_FILE = 'x402.config.json';
+
+/**
+ * An API declared in a config file
+ */
+export interface APIModuleConfig extends Partial<Omit<APIConfig, 'pricing'>> {
+    /** API name, e.g. 'openai.chat' */
+    name: string;
+
+    /**
+     * Module exporting the handler, relative to the config file. The export may be
+     * the handler itself or `{ handler, ...config }`, e.g. to add a `pricing` function.
+     */
+    module: string;
+
+    /** Export to use (default: 'default', falling back to the module itself) */
+    export?: string;
+}
+
+/**
+ * A proxy API declared in a config file; see `addProxyAPI`
+ */
+export interface ProxyAPIFileConfig extends Omit<ProxyAPIConfig, 'pricing'> {
+    name: string;
+}
+
+/**
+ * A backend declared in a config file: a handler module or, with `upstream`, a proxy
+ */
+export interface BackendFileConfig extends Omit<BackendConfig, 'handler'> {
+    /** Module exporting the backend's handler, relative to the config file */
+    module?: string;
+
+    /** Export to use (default: 'default', falling back to the module itself) */
+    export?: string;
+}
+
+/**
+ * An API with several backends declared in a config file; see `addBalancedAPI`
+ */
+export interface BalancedAPIFileConfig extends Omit<BalancedAPIConfig, 'pricing' | 'backends'> {
+    name: string;
+    backends: BackendFileConfig[];
+}
+
+/**
+ * Config file format: the JSON-serializable parts of `ServerConfig`, plus API
+ * modules and file paths for persistent stores. Relative paths are resolved
+ * against the config file's directory.
+ */
+export interface NodeConfigFile
+    extends Omit<
+        ServerConfig,
+        'ledger' | 'callLedger' | 'balances' | 'sessionStore' | 'logger' | 'verifiers' | 'rateLimitStore' | 'cacheStore'
+    > {
+    /**
+     * APIs backed by a handler module, proxied to an HTTP endpoint with `upstream`,
+     * or balanced over several `backends`
+     */
+    apis?: Array<APIModuleConfig | ProxyAPIFileConfig | BalancedAPIFileConfig>;
+
+    /** Spent-payment ledger file (`.db` for SQLite, otherwise JSON Lines) */
+    paymentLedger?: string;
+
+    /** Call ledger file (`.db` for SQLite, otherwise JSON Lines) */
+    callLedger?: string;
+
+    /** Prepaid balances file (JSON) */
+    balances?: string;
+
+    /** Session usage file (JSON) */
+    sessionStore?: string;
+
+    /** Log level (default: 'info') */
+    logLevel?: LogLevel;
+}
+
+/**
+ * A loaded config file and the directory its paths are relative to
+ */
+export interface LoadedConfig {
+    file: NodeConfigFile;
+    baseDir: string;
+}
+
+/**
+ * Read a config file
+ */
+export function loadConfigFile(path: string = DEFAULT_CONFIG_FILE): LoadedConfig {
+    const fullPath = resolve(path);
+
+    let file: NodeConfigFile;
+    try {
+        file = JSON.parse(readFileSync(fullPath, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Failed to load config from ${fullPath}: ${error}`);
+    }
+
+    if (!file.wallet) {
+        throw new Error(`Config ${fullPath} is missing "wallet"`);
+    }
+
+    return { file, baseDir: dirname(fullPath) };
+}
+
+/**
+ * Open the call ledger a config file points to
+ */
+export function openCallLedger({ file, baseDir }: LoadedConfig): CallLedger | undefined {
+    if (!file.callLedger) {
+        return undefined;
+    }
+
+    const path = resolve(baseDir, file.callLedger);
+    return isSqlitePath(path) ? new SqliteCallLedger(path) : new JsonlCallLedger(path);
+}
+
+/**
+ * The wallet source a config file points to, with file paths resolved
+ */
+export function resolveWallet({ file, baseDir }: LoadedConfig): WalletSource {
+    const { wallet } = file;
+    if (typeof wallet === 'string') {
+        return resolve(baseDir, wallet);
+    }
+    if ('keystore' in wallet) {
+        return { ...wallet, keystore: resolve(baseDir, wallet.keystore) };
+    }
+    return wallet;
+}
+
+/**
+ * Build the `ServerConfig` a config file describes
+ */
+export function toServerConfig(config: LoadedConfig): ServerConfig {
+    const { file, baseDir } = config;
+    const { apis, paymentLedger, callLedger, balances, sessionStore, logLevel, ...serverConfig } = file;
+
+    return {
+        ...serverConfig,
+        wallet: resolveWallet(config),
+        logger: createJsonLogger({ level: logLevel ?? 'info' }),
+        ledger: paymentLedger
+            ? isSqlitePath(paymentLedger)
+                ? new SqlitePaymentLedger(resolve(baseDir, paymentLedger))
+                : new FilePaymentLedger(resolve(baseDir, paymentLedger))
+            : undefined,
+        callLedger: openCallLedger(config),
+        balances: balances ? new FileBalanceStore(resolve(baseDir, balances)) : undefined,
+        sessionStore: sessionStore ? new FileSessionStore(resolve(baseDir, sessionStore)) : undefined,
+    };
+}
+
+/**
+ * Create a provider server from a config file and add its API modules
+ */
+export function createServerFromConfig(config: LoadedConfig): ProviderServer {
+    const server = createProviderServer(toServerConfig(config));
+
+    for (const api of config.file.apis ?? []) {
+        if ('backends' in api) {
+            const { name, backends, ...balancedConfig } = api;
+            server.addBalancedAPI(name, {
+                ...balancedConfig,
+                backends: backends.map(({ module, export: exportName, ...backend }) =>
+                    module
+                        ? {
+                              ...backend,
+                              handler: loadAPIModule(
+                                  { name: `${name}/${backend.name}`, module, export: exportName },
+                                  config.baseDir
+                              ).handler,
+                          }
+                        : backend
+                ),
+            });
+            continue;
+        }
+        if ('upstream' in api) {
+            const { name, ...proxyConfig } = api;
+            server.addProxyAPI(name, proxyConfig);
+            continue;
+        }
+
+        const { handler, config: apiConfig } = loadAPIModule(api, config.baseDir);
+        server.addAPI(api.name, handler, apiConfig);
+    }
+
+    return server;
+}
+
+/**
+ * Load a handler module declared in a config file
+ */
+function loadAPIModule(
+    api: APIModuleConfig,
+    baseDir: string
+): { handler: APIHandler | StreamingAPIHandler; config: Partial<APIConfig> } {
+    const { name, module, export: exportName, ...fileConfig } = api;
+    const path = resolve(baseDir, module);
+
+    let loaded: any;
+    try {
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        loaded = require(path);
+    } catch (error) {
+        throw new Error(`Failed to load module for ${name} from ${path}: ${error}`);
+    }
+
+    const exported = exportName ? loaded[exportName] : loaded.default ?? loaded;
+    if (typeof exported === 'function') {
+        return { handler: exported, config: fileConfig };
+    }
+    if (exported && typeof exported.handler === 'function') {
+        const { handler, ...moduleConfig } = exported;
+        // The config file wins, so prices can change without editing code
+        return { handler, config: { ...moduleConfig, ...fileConfig } };
+    }
+
+    throw new Error(`Module for ${name} (${path}) does not export a handler`);
+}
+
+function isSqlitePath(path: string): boolean {
+    return ['.db', '.sqlite', '.sqlite3'].includes(extname(path));
+}
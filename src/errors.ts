@@ -18,13 +18,203 @@ export class APINotFoundError extends ProviderNodeError {
     }
 }
 
+/**
+ * Machine-readable reason a payment was rejected
+ */
+export type PaymentErrorReason =
+    | 'verification_failed'
+    | 'unsupported_chain'
+    | 'malformed_proof'
+    | 'transaction_not_found'
+    | 'transaction_failed'
+    | 'not_confirmed'
+    | 'payment_expired'
+    | 'no_transfer'
+    | 'mint_not_accepted'
+    | 'recipient_mismatch'
+    | 'insufficient_amount'
+    | 'memo_mismatch'
+    | 'authorization_expired'
+    | 'authorization_rejected'
+    | 'replay'
+    | 'invalid_session'
+    | 'session_exhausted';
+
 /**
  * Payment error
  */
 export class PaymentError extends ProviderNodeError {
-    constructor(message: string) {
+    readonly reason: PaymentErrorReason;
+
+    constructor(message: string, reason: PaymentErrorReason = 'verification_failed') {
         super(message);
         this.name = 'PaymentError';
+        this.reason = reason;
+    }
+}
+
+/**
+ * Payment chain is not enabled on this node
+ */
+export class UnsupportedChainError extends PaymentError {
+    constructor(chain: string) {
+        super(`Unsupported chain: ${chain}`, 'unsupported_chain');
+        this.name = 'UnsupportedChainError';
+    }
+}
+
+/**
+ * X-Payment value can't be parsed as a payment proof for the chain
+ */
+export class MalformedPaymentError extends PaymentError {
+    constructor(message: string) {
+        super(message, 'malformed_proof');
+        this.name = 'MalformedPaymentError';
+    }
+}
+
+/**
+ * Payment transaction does not exist on-chain
+ */
+export class TransactionNotFoundError extends PaymentError {
+    constructor(signature: string) {
+        super(`Transaction not found: ${signature}`, 'transaction_not_found');
+        this.name = 'TransactionNotFoundError';
+    }
+}
+
+/**
+ * Payment transaction failed on-chain
+ */
+export class TransactionFailedError extends PaymentError {
+    constructor(signature: string) {
+        super(`Transaction failed on-chain: ${signature}`, 'transaction_failed');
+        this.name = 'TransactionFailedError';
+    }
+}
+
+/**
+ * Payment transaction doesn't have enough confirmations yet
+ */
+export class NotConfirmedError extends PaymentError {
+    constructor(signature: string) {
+        super(`Transaction not yet confirmed: ${signature}`, 'not_confirmed');
+        this.name = 'NotConfirmedError';
+    }
+}
+
+/**
+ * Payment transaction is older than the node accepts, or its age can't be told
+ */
+export class PaymentExpiredError extends PaymentError {
+    constructor(signature: string) {
+        super(`Transaction is too old to pay with: ${signature}`, 'payment_expired');
+        this.name = 'PaymentExpiredError';
+    }
+}
+
+/**
+ * Payment transaction contains no usable token transfer
+ */
+export class NoTransferError extends PaymentError {
+    constructor(message = 'No transferChecked instruction found') {
+        super(message, 'no_transfer');
+        this.name = 'NoTransferError';
+    }
+}
+
+/**
+ * Payment was made in a token the node does not accept
+ */
+export class MintNotAcceptedError extends PaymentError {
+    constructor(mint: string) {
+        super(`Mint not accepted: ${mint}`, 'mint_not_accepted');
+        this.name = 'MintNotAcceptedError';
+    }
+}
+
+/**
+ * Payment was sent to an account not owned by the provider
+ */
+export class RecipientMismatchError extends PaymentError {
+    constructor(expected: string) {
+        super(`Payment was not sent to an account owned by ${expected}`, 'recipient_mismatch');
+        this.name = 'RecipientMismatchError';
+    }
+}
+
+/**
+ * Payment is lower than the price
+ */
+export class InsufficientPaymentError extends PaymentError {
+    readonly required: number;
+    readonly received: number;
+
+    constructor(required: number, received: number) {
+        super(`Insufficient payment: required ${required}, received ${received}`, 'insufficient_amount');
+        this.name = 'InsufficientPaymentError';
+        this.required = required;
+        this.received = received;
+    }
+}
+
+/**
+ * Payment memo (or EIP-3009 nonce) does not carry a valid server-issued nonce
+ */
+export class MemoMismatchError extends PaymentError {
+    constructor(message = 'Payment memo does not match an issued nonce') {
+        super(message, 'memo_mismatch');
+        this.name = 'MemoMismatchError';
+    }
+}
+
+/**
+ * Signed transfer authorization is expired or not yet valid
+ */
+export class AuthorizationExpiredError extends PaymentError {
+    constructor() {
+        super('Authorization is expired or not yet valid', 'authorization_expired');
+        this.name = 'AuthorizationExpiredError';
+    }
+}
+
+/**
+ * Signed transfer authorization would be reverted by the token contract
+ */
+export class AuthorizationRejectedError extends PaymentError {
+    constructor(detail: string) {
+        super(`Authorization rejected by token contract: ${detail}`, 'authorization_rejected');
+        this.name = 'AuthorizationRejectedError';
+    }
+}
+
+/**
+ * Payment signature was already used
+ */
+export class PaymentReplayError extends PaymentError {
+    constructor(signature: string) {
+        super(`Payment already used: ${signature}`, 'replay');
+        this.name = 'PaymentReplayError';
+    }
+}
+
+/**
+ * Session token is malformed, forged, expired or doesn't cover the API
+ */
+export class InvalidSessionError extends PaymentError {
+    constructor(message: string) {
+        super(message, 'invalid_session');
+        this.name = 'InvalidSessionError';
+    }
+}
+
+/**
+ * Session has no calls or budget left
+ */
+export class SessionExhaustedError extends PaymentError {
+    constructor(sessionId: string) {
+        super(`Session exhausted: ${sessionId}`, 'session_exhausted');
+        this.name = 'SessionExhaustedError';
     }
 }
 
@@ -36,4 +226,32 @@ export class RegistryError extends ProviderNodeError {
         super(message);
         this.name = 'RegistryError';
     }
+}
+
+/**
+ * Upstream service of a proxy API failed or rejected the call
+ */
+export class UpstreamError extends ProviderNodeError {
+    /** Status the node responds with */
+    readonly statusCode: number;
+
+    /** Status returned by the upstream, if it responded */
+    readonly upstreamStatus?: number;
+
+    constructor(message: string, statusCode = 502, upstreamStatus?: number) {
+        super(message);
+        this.name = 'UpstreamError';
+        this.statusCode = statusCode;
+        this.upstreamStatus = upstreamStatus;
+    }
+}
+
+/**
+ * API is at its concurrency limit with a full queue, or a queued call waited too long
+ */
+export class APIOverloadedError extends ProviderNodeError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'APIOverloadedError';
+    }
 }
\ No newline at end of file
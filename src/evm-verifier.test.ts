@@ -0,0 +1,373 @@
+import { randomBytes } from 'crypto';
+import { Server, createServer } from 'http';
+import { AddressInfo } from 'net';
+import {
+    AuthorizationExpiredError,
+    AuthorizationRejectedError,
+    InsufficientPaymentError,
+    MalformedPaymentError,
+    MemoMismatchError,
+    MintNotAcceptedError,
+    NoTransferError,
+    NotConfirmedError,
+    PaymentExpiredError,
+    PaymentReplayError,
+    RecipientMismatchError,
+    TransactionFailedError,
+    TransactionNotFoundError,
+} from './errors';
+import { EIP3009Authorization, EvmVerifier } from './evm-verifier';
+import { silentLogger } from './logger';
+
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+const AUTHORIZATION_STATE_SELECTOR = '0xe94a0102';
+const TRANSFER_WITH_AUTHORIZATION_SELECTOR = '0xe3ee160e';
+
+const PROVIDER = '0x1111111111111111111111111111111111111111';
+const PAYER = '0x2222222222222222222222222222222222222222';
+const USDC = '0x3333333333333333333333333333333333333333';
+
+const randomHash = () => `0x${randomBytes(32).toString('hex')}`;
+const topic = (address: string) => `0x${address.slice(2).padStart(64, '0')}`;
+const word = (value: bigint | number) => `0x${BigInt(value).toString(16).padStart(64, '0')}`;
+const calldataWords = (data: string): string[] => data.slice(10).match(/.{64}/g) ?? [];
+
+/**
+ * A minimal anvil-like chain: mined receipts, a block height, and a USDC contract
+ * that tracks used EIP-3009 nonces and settles authorizations sent to it
+ */
+class LocalChain {
+    blockNumber = 100;
+    blockTimes = new Map<number, number>();
+    receipts = new Map<string, unknown>();
+    usedNonces = new Set<string>();
+    /** Makes simulated authorizations revert with this message */
+    revert?: string;
+    /** Leaves requests unanswered, like an RPC that hangs */
+    stalled = false;
+    private server?: Server;
+
+    async start(): Promise<string> {
+        this.server = createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => (body += chunk));
+            req.on('end', () => {
+                if (this.stalled) {
+                    return;
+                }
+                const { id, method, params } = JSON.parse(body);
+                res.setHeader('Content-Type', 'application/json');
+                try {
+                    res.end(JSON.stringify({ jsonrpc: '2.0', id, result: this.handle(method, params) }));
+                } catch (error) {
+                    const { message } = error as Error;
+                    res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code: 3, message } }));
+                }
+            });
+        });
+        await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    stop(): Promise<void> {
+        return new Promise(resolve => this.server!.close(() => resolve()));
+    }
+
+    /**
+     * Mine a transaction with Transfer logs, in a block `age` seconds old
+     */
+    mine(
+        transfers: Array<{ token: string; from: string; to: string; amount: bigint }>,
+        status = '0x1',
+        age = 0
+    ): string {
+        const hash = randomHash();
+        this.blockNumber++;
+        this.blockTimes.set(this.blockNumber, Math.floor(Date.now() / 1000) - age);
+        this.receipts.set(hash, {
+            transactionHash: hash,
+            blockNumber: word(this.blockNumber),
+            status,
+            logs: transfers.map(({ token, from, to, amount }) => ({
+                address: token,
+                topics: [TRANSFER_TOPIC, topic(from), topic(to)],
+                data: word(amount),
+            })),
+        });
+        return hash;
+    }
+
+    private handle(method: string, params: any[]): unknown {
+        switch (method) {
+            case 'eth_blockNumber':
+                return word(this.blockNumber);
+            case 'eth_getBlockByNumber': {
+                const timestamp = this.blockTimes.get(Number(params[0]));
+                return timestamp === undefined ? null : { number: params[0], timestamp: word(timestamp) };
+            }
+            case 'eth_getTransactionReceipt':
+                return this.receipts.get(params[0]) ?? null;
+            case 'eth_call':
+                return this.call(params[0].data);
+            case 'eth_sendTransaction':
+                return this.settle(params[0].data);
+            default:
+                throw new Error(`Method not supported: ${method}`);
+        }
+    }
+
+    private call(data: string): string {
+        const words = calldataWords(data);
+        if (data.startsWith(AUTHORIZATION_STATE_SELECTOR)) {
+            return word(this.usedNonces.has(words[1]) ? 1 : 0);
+        }
+        if (data.startsWith(TRANSFER_WITH_AUTHORIZATION_SELECTOR)) {
+            if (this.revert) {
+                throw new Error(`execution reverted: ${this.revert}`);
+            }
+            return '0x';
+        }
+        throw new Error('execution reverted');
+    }
+
+    private settle(data: string): string {
+        const words = calldataWords(data);
+        this.usedNonces.add(words[5]);
+        return this.mine([
+            {
+                token: USDC,
+                from: `0x${words[0].slice(24)}`,
+                to: `0x${words[1].slice(24)}`,
+                amount: BigInt(`0x${words[2]}`),
+            },
+        ]);
+    }
+}
+
+function authorizationProof(overrides: Partial<EIP3009Authorization> = {}, signature = `0x${'ab'.repeat(65)}`) {
+    const now = Math.floor(Date.now() / 1000);
+    const authorization: EIP3009Authorization = {
+        from: PAYER,
+        to: PROVIDER,
+        value: '100000',
+        validAfter: String(now - 60),
+        validBefore: String(now + 600),
+        nonce: randomHash(),
+        ...overrides,
+    };
+    return Buffer.from(JSON.stringify({ token: USDC, authorization, signature })).toString('base64');
+}
+
+describe('EvmVerifier', () => {
+    const chain = new LocalChain();
+    let rpcUrl: string;
+    let verifier: EvmVerifier;
+
+    beforeAll(async () => {
+        rpcUrl = await chain.start();
+        verifier = new EvmVerifier({
+            chain: 'base',
+            rpcUrl,
+            address: PROVIDER,
+            tokens: [{ address: USDC, decimals: 6, symbol: 'USDC' }],
+        });
+        verifier.instrument({ logger: silentLogger, observeRPC: () => undefined });
+    });
+
+    afterAll(() => chain.stop());
+
+    beforeEach(() => {
+        chain.revert = undefined;
+        chain.stalled = false;
+    });
+
+    it('gives up on an RPC request that takes too long', async () => {
+        const impatient = new EvmVerifier({
+            chain: 'base',
+            rpcUrl,
+            address: PROVIDER,
+            tokens: [{ address: USDC, decimals: 6 }],
+            rpcTimeout: 50,
+        });
+        impatient.instrument({ logger: silentLogger, observeRPC: () => undefined });
+        chain.stalled = true;
+
+        await expect(impatient.verify(randomHash(), { api: 'test.echo', price: 0.1 })).rejects.toThrow('timeout');
+    });
+
+    describe('transaction hashes', () => {
+        it('verifies a Transfer to the provider', async () => {
+            const hash = chain.mine([{ token: USDC, from: PAYER, to: PROVIDER, amount: BigInt(100000) }]);
+
+            await expect(verifier.verify(hash, { api: 'test.echo', price: 0.1 })).resolves.toEqual({
+                amount: 0.1,
+                from: PAYER,
+                asset: USDC,
+                reference: hash,
+            });
+        });
+
+        it('rejects unknown transactions', async () => {
+            await expect(verifier.verify(randomHash(), { api: 'test.echo', price: 0.1 })).rejects.toThrow(
+                TransactionNotFoundError
+            );
+        });
+
+        it('rejects reverted transactions', async () => {
+            const hash = chain.mine([], '0x0');
+
+            await expect(verifier.verify(hash, { api: 'test.echo', price: 0.1 })).rejects.toThrow(
+                TransactionFailedError
+            );
+        });
+
+        it('rejects transactions without enough confirmations', async () => {
+            const strict = new EvmVerifier({
+                chain: 'base',
+                rpcUrl,
+                address: PROVIDER,
+                tokens: [{ address: USDC, decimals: 6 }],
+                confirmations: 3,
+            });
+            strict.instrument({ logger: silentLogger, observeRPC: () => undefined });
+            const hash = chain.mine([{ token: USDC, from: PAYER, to: PROVIDER, amount: BigInt(100000) }]);
+
+            const error = await strict.verify(hash, { api: 'test.echo', price: 0.1 }).catch(e => e);
+
+            expect(error).toBeInstanceOf(NotConfirmedError);
+            expect(error.reason).toBe('not_confirmed');
+        });
+
+        it('rejects transactions older than the maximum age', async () => {
+            const transfer = { token: USDC, from: PAYER, to: PROVIDER, amount: BigInt(100000) };
+            const recent = chain.mine([transfer], '0x1', 10);
+            const old = chain.mine([transfer], '0x1', 301);
+
+            await expect(verifier.verify(recent, { api: 'test.echo', price: 0.1, maxAge: 300 })).resolves.toBeDefined();
+            await expect(verifier.verify(old, { api: 'test.echo', price: 0.1, maxAge: 300 })).rejects.toThrow(
+                PaymentExpiredError
+            );
+        });
+
+        it('rejects transactions without Transfer logs', async () => {
+            const hash = chain.mine([]);
+
+            await expect(verifier.verify(hash, { api: 'test.echo', price: 0.1 })).rejects.toThrow(NoTransferError);
+        });
+
+        it('rejects transfers to someone else', async () => {
+            const hash = chain.mine([{ token: USDC, from: PAYER, to: PAYER, amount: BigInt(100000) }]);
+
+            await expect(verifier.verify(hash, { api: 'test.echo', price: 0.1 })).rejects.toThrow(
+                RecipientMismatchError
+            );
+        });
+
+        it('rejects tokens that are not accepted', async () => {
+            const other = '0x4444444444444444444444444444444444444444';
+            const hash = chain.mine([{ token: other, from: PAYER, to: PROVIDER, amount: BigInt(100000) }]);
+
+            await expect(verifier.verify(hash, { api: 'test.echo', price: 0.1 })).rejects.toThrow(
+                MintNotAcceptedError
+            );
+        });
+
+        it('rejects payments below the price', async () => {
+            const hash = chain.mine([{ token: USDC, from: PAYER, to: PROVIDER, amount: BigInt(99999) }]);
+
+            await expect(verifier.verify(hash, { api: 'test.echo', price: 0.1 })).rejects.toThrow(
+                InsufficientPaymentError
+            );
+        });
+
+        it('rejects transactions when a nonce is required, as they cannot carry one', async () => {
+            const hash = chain.mine([{ token: USDC, from: PAYER, to: PROVIDER, amount: BigInt(100000) }]);
+
+            await expect(
+                verifier.verify(hash, { api: 'test.echo', price: 0.1, consumeNonce: () => true })
+            ).rejects.toThrow(MemoMismatchError);
+        });
+    });
+
+    describe('EIP-3009 authorizations', () => {
+        it('settles a valid authorization on-chain', async () => {
+            const payment = await verifier.verify(authorizationProof(), { api: 'test.echo', price: 0.1 });
+
+            expect(payment).toMatchObject({ amount: 0.1, from: PAYER, asset: USDC });
+            expect(chain.receipts.has(payment.reference)).toBe(true);
+        });
+
+        it('rejects an authorization that was already used', async () => {
+            const nonce = randomHash();
+            await verifier.verify(authorizationProof({ nonce }), { api: 'test.echo', price: 0.1 });
+
+            await expect(
+                verifier.verify(authorizationProof({ nonce }), { api: 'test.echo', price: 0.1 })
+            ).rejects.toThrow(PaymentReplayError);
+        });
+
+        it('rejects expired authorizations', async () => {
+            const validBefore = String(Math.floor(Date.now() / 1000) - 1);
+
+            await expect(
+                verifier.verify(authorizationProof({ validBefore }), { api: 'test.echo', price: 0.1 })
+            ).rejects.toThrow(AuthorizationExpiredError);
+        });
+
+        it('rejects authorizations the token contract would revert', async () => {
+            chain.revert = 'FiatTokenV2: invalid signature';
+
+            await expect(verifier.verify(authorizationProof(), { api: 'test.echo', price: 0.1 })).rejects.toThrow(
+                AuthorizationRejectedError
+            );
+        });
+
+        it('rejects authorizations for less than the price', async () => {
+            await expect(
+                verifier.verify(authorizationProof({ value: '50000' }), { api: 'test.echo', price: 0.1 })
+            ).rejects.toThrow(InsufficientPaymentError);
+        });
+
+        it('rejects authorizations to someone else', async () => {
+            await expect(
+                verifier.verify(authorizationProof({ to: PAYER }), { api: 'test.echo', price: 0.1 })
+            ).rejects.toThrow(RecipientMismatchError);
+        });
+
+        it('accepts the challenge nonce as the authorization nonce', async () => {
+            const challenge = randomBytes(16).toString('hex');
+            const consumed: string[] = [];
+            const consumeNonce = (nonce: string) => {
+                consumed.push(nonce);
+                return nonce === challenge;
+            };
+
+            await expect(
+                verifier.verify(authorizationProof({ nonce: `0x${challenge.padStart(64, '0')}` }), {
+                    api: 'test.echo',
+                    price: 0.1,
+                    consumeNonce,
+                })
+            ).resolves.toMatchObject({ amount: 0.1 });
+            expect(consumed).toEqual([challenge]);
+        });
+
+        it('rejects an authorization nonce that was not issued', async () => {
+            await expect(
+                verifier.verify(authorizationProof(), { api: 'test.echo', price: 0.1, consumeNonce: () => false })
+            ).rejects.toThrow(MemoMismatchError);
+            await expect(
+                verifier.verify(authorizationProof(), { api: 'test.echo', price: 0.1, consumeNonce: () => true })
+            ).rejects.toThrow('Authorization nonce does not match an issued nonce');
+        });
+
+        it('rejects malformed proofs', async () => {
+            await expect(verifier.verify('not a proof', { api: 'test.echo', price: 0.1 })).rejects.toThrow(
+                MalformedPaymentError
+            );
+            await expect(
+                verifier.verify(authorizationProof({}, '0x1234'), { api: 'test.echo', price: 0.1 })
+            ).rejects.toThrow(MalformedPaymentError);
+        });
+    });
+});
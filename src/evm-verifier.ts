@@ -0,0 +1,447 @@
+import fetch from 'node-fetch';
+import { Chain } from '@x402apis/protocol';
+import {
+    AuthorizationExpiredError,
+    AuthorizationRejectedError,
+    InsufficientPaymentError,
+    MalformedPaymentError,
+    MemoMismatchError,
+    MintNotAcceptedError,
+    NoTransferError,
+    NotConfirmedError,
+    PaymentExpiredError,
+    PaymentReplayError,
+    RecipientMismatchError,
+    TransactionFailedError,
+    TransactionNotFoundError,
+} from './errors';
+import { defaultLogger } from './logger';
+import { toAtomicAmount } from './payment-requirements';
+import {
+    ChainVerifier,
+    Logger,
+    PaymentExpectation,
+    PaymentOffer,
+    PaymentRequirement,
+    VerifiedPayment,
+    VerifierInstrumentation,
+} from './types';
+import { isRecent, sleep } from './utils';
+
+// keccak256('Transfer(address,address,uint256)')
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+// transferWithAuthorization(address,address,uint256,uint256,uint256,bytes32,uint8,bytes32,bytes32)
+const TRANSFER_WITH_AUTHORIZATION_SELECTOR = '0xe3ee160e';
+// authorizationState(address,bytes32)
+const AUTHORIZATION_STATE_SELECTOR = '0xe94a0102';
+
+/**
+ * An ERC-20 token accepted as payment
+ */
+export interface EvmToken {
+    /** Token contract address */
+    address: string;
+
+    /** Token decimals */
+    decimals: number;
+
+    /** Display symbol */
+    symbol?: string;
+
+    /** EIP-712 domain name, needed by clients signing EIP-3009 authorizations (e.g. 'USD Coin') */
+    name?: string;
+
+    /** EIP-712 domain version (e.g. '2') */
+    version?: string;
+}
+
+/**
+ * A signed EIP-3009 `transferWithAuthorization`
+ */
+export interface EIP3009Authorization {
+    from: string;
+    to: string;
+    value: string;
+    validAfter: string;
+    validBefore: string;
+    nonce: string;
+}
+
+/**
+ * EVM verifier options
+ */
+export interface EvmVerifierOptions {
+    /** Chain name as used in X-Payment-Chain (e.g. 'base') */
+    chain: Chain;
+
+    /** JSON-RPC endpoint */
+    rpcUrl: string;
+
+    /** Provider address that receives payments */
+    address: string;
+
+    /** Accepted tokens */
+    tokens: EvmToken[];
+
+    /** Blocks required on top of a payment transaction (default: 1) */
+    confirmations?: number;
+
+    /**
+     * Submit a verified authorization on-chain and resolve to the transaction hash.
+     * Defaults to `eth_sendTransaction` from `address`, which works against nodes
+     * holding an unlocked account such as anvil or hardhat.
+     */
+    submitAuthorization?: (
+        token: EvmToken,
+        authorization: EIP3009Authorization,
+        signature: string,
+        calldata: string
+    ) => Promise<string>;
+
+    /** How long to wait for a submitted authorization to be mined, in ms (default: 60000) */
+    settlementTimeout?: number;
+
+    /** Timeout for each JSON-RPC request in ms (default: 10000) */
+    rpcTimeout?: number;
+}
+
+/**
+ * Verifies ERC-20 payments on an EVM chain.
+ *
+ * X-Payment carries either the hash of a confirmed transaction with Transfer logs
+ * to the provider, or base64 JSON `{ token, authorization, signature }` with a
+ * signed EIP-3009 authorization, which is checked by simulation and then settled.
+ * When a nonce is required, only authorizations can carry it, as their EIP-3009 nonce.
+ */
+export class EvmVerifier implements ChainVerifier {
+    readonly chain: Chain;
+    private rpcUrl: string;
+    private address: string;
+    private tokens: EvmToken[];
+    private confirmations: number;
+    private settlementTimeout: number;
+    private rpcTimeout: number;
+    private submitAuthorization: NonNullable<EvmVerifierOptions['submitAuthorization']>;
+    private rpcId = 0;
+    private logger: Logger = defaultLogger;
+    private observeRPC: VerifierInstrumentation['observeRPC'] = () => undefined;
+
+    constructor(options: EvmVerifierOptions) {
+        this.chain = options.chain;
+        this.rpcUrl = options.rpcUrl;
+        this.address = options.address.toLowerCase();
+        this.tokens = options.tokens.map(token => ({ ...token, address: token.address.toLowerCase() }));
+        this.confirmations = options.confirmations ?? 1;
+        this.settlementTimeout = options.settlementTimeout ?? 60000;
+        this.rpcTimeout = options.rpcTimeout ?? 10000;
+        this.submitAuthorization =
+            options.submitAuthorization ??
+            ((token, _authorization, _signature, calldata) =>
+                this.rpc<string>('eth_sendTransaction', [{ from: this.address, to: token.address, data: calldata }]));
+    }
+
+    instrument({ logger, observeRPC }: VerifierInstrumentation): void {
+        this.logger = logger;
+        this.observeRPC = observeRPC;
+    }
+
+    requirements(offer: PaymentOffer): PaymentRequirement[] {
+        return this.tokens.map(token => ({
+            scheme: 'exact',
+            network: this.chain,
+            maxAmountRequired: toAtomicAmount(offer.price, token.decimals),
+            resource: offer.resource,
+            description: `Payment for ${offer.api}`,
+            mimeType: 'application/json',
+            payTo: this.address,
+            maxTimeoutSeconds: offer.timeoutSeconds,
+            asset: token.address,
+            extra: {
+                api: offer.api,
+                price: offer.price,
+                decimals: token.decimals,
+                owner: this.address,
+                nonce: offer.nonce,
+                expiresAt: offer.expiresAt,
+                ...(token.name && { name: token.name }),
+                ...(token.version && { version: token.version }),
+            },
+        }));
+    }
+
+    async verify(proof: string, expected: PaymentExpectation): Promise<VerifiedPayment> {
+        if (/^0x[0-9a-fA-F]{64}$/.test(proof)) {
+            return this.verifyTransfer(proof.toLowerCase(), expected);
+        }
+
+        let decoded: { token?: string; authorization?: EIP3009Authorization; signature?: string };
+        try {
+            decoded = JSON.parse(Buffer.from(proof, 'base64').toString('utf-8'));
+        } catch {
+            throw new MalformedPaymentError('X-Payment is neither a transaction hash nor an EIP-3009 authorization');
+        }
+
+        if (!decoded.token || !decoded.authorization || !decoded.signature) {
+            throw new MalformedPaymentError('EIP-3009 payment requires token, authorization and signature');
+        }
+
+        return this.verifyAuthorization(decoded.token, decoded.authorization, decoded.signature, expected);
+    }
+
+    /**
+     * Verify a confirmed transaction by its ERC-20 Transfer logs to the provider
+     */
+    private async verifyTransfer(hash: string, expected: PaymentExpectation): Promise<VerifiedPayment> {
+        // A plain transfer has nowhere to carry the challenge nonce
+        if (expected.consumeNonce) {
+            throw new MemoMismatchError('A nonce is required; pay with an EIP-3009 authorization carrying it');
+        }
+
+        const receipt = await this.rpc<any>('eth_getTransactionReceipt', [hash]);
+        if (!receipt) {
+            throw new TransactionNotFoundError(hash);
+        }
+        if (receipt.status !== '0x1') {
+            throw new TransactionFailedError(hash);
+        }
+
+        const head = Number(await this.rpc<string>('eth_blockNumber', []));
+        if (head - Number(receipt.blockNumber) + 1 < this.confirmations) {
+            throw new NotConfirmedError(hash);
+        }
+
+        // An old transfer may have been claimed before a ledger that has since forgotten it
+        if (expected.maxAge !== undefined) {
+            const block = await this.rpc<any>('eth_getBlockByNumber', [receipt.blockNumber, false]);
+            if (!isRecent(block && Number(block.timestamp), expected.maxAge)) {
+                throw new PaymentExpiredError(hash);
+            }
+        }
+
+        const transfers = (receipt.logs as any[]).filter(
+            log => log.topics?.[0] === TRANSFER_TOPIC && log.topics.length === 3
+        );
+        if (transfers.length === 0) {
+            throw new NoTransferError('No ERC-20 Transfer found');
+        }
+
+        const totals = new Map<string, { amount: bigint; from: string }>();
+        let rejectedToken: string | undefined;
+
+        for (const log of transfers) {
+            if (topicToAddress(log.topics[2]) !== this.address) {
+                continue;
+            }
+
+            const tokenAddress = log.address.toLowerCase();
+            if (!this.tokens.some(token => token.address === tokenAddress)) {
+                rejectedToken = tokenAddress;
+                continue;
+            }
+
+            const total = totals.get(tokenAddress);
+            totals.set(tokenAddress, {
+                amount: (total?.amount ?? BigInt(0)) + BigInt(log.data),
+                from: total?.from ?? topicToAddress(log.topics[1]),
+            });
+        }
+
+        if (totals.size === 0) {
+            if (rejectedToken) {
+                throw new MintNotAcceptedError(rejectedToken);
+            }
+            throw new RecipientMismatchError(this.address);
+        }
+
+        const [tokenAddress, total] = Array.from(totals.entries()).sort(([, a], [, b]) =>
+            a.amount > b.amount ? -1 : 1
+        )[0];
+        const token = this.tokens.find(t => t.address === tokenAddress)!;
+
+        return this.checkAmount(token, total.amount, total.from, hash, expected);
+    }
+
+    /**
+     * Verify a signed EIP-3009 authorization by simulating it, then settle it on-chain
+     */
+    private async verifyAuthorization(
+        tokenAddress: string,
+        authorization: EIP3009Authorization,
+        signature: string,
+        expected: PaymentExpectation
+    ): Promise<VerifiedPayment> {
+        const token = this.tokens.find(t => t.address === tokenAddress.toLowerCase());
+        if (!token) {
+            throw new MintNotAcceptedError(tokenAddress);
+        }
+        if (authorization.to.toLowerCase() !== this.address) {
+            throw new RecipientMismatchError(this.address);
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        if (Number(authorization.validAfter) > now || Number(authorization.validBefore) <= now) {
+            throw new AuthorizationExpiredError();
+        }
+
+        const amount = BigInt(authorization.value);
+        const price = BigInt(toAtomicAmount(expected.price, token.decimals));
+        if (amount < price) {
+            throw new InsufficientPaymentError(expected.price, Number(amount) / 10 ** token.decimals);
+        }
+
+        // The challenge nonce is sent as the authorization's nonce, left-padded to 32 bytes
+        if (expected.consumeNonce) {
+            const nonce = encodeBytes32(authorization.nonce).toLowerCase();
+            if (!/^0{32}/.test(nonce) || !expected.consumeNonce(nonce.slice(32))) {
+                throw new MemoMismatchError('Authorization nonce does not match an issued nonce');
+            }
+        }
+
+        const used = await this.rpc<string>('eth_call', [
+            {
+                to: token.address,
+                data: AUTHORIZATION_STATE_SELECTOR + encodeAddress(authorization.from) + encodeBytes32(authorization.nonce),
+            },
+            'latest',
+        ]);
+        if (BigInt(used) !== BigInt(0)) {
+            throw new PaymentReplayError(authorization.nonce);
+        }
+
+        // A simulation reverts if the signature, balance or validity window is wrong
+        const calldata = encodeTransferWithAuthorization(authorization, signature);
+        try {
+            await this.rpc('eth_call', [{ from: this.address, to: token.address, data: calldata }, 'latest']);
+        } catch (error) {
+            throw new AuthorizationRejectedError(error instanceof Error ? error.message : String(error));
+        }
+
+        const hash = (await this.submitAuthorization(token, authorization, signature, calldata)).toLowerCase();
+        const receipt = await this.waitForReceipt(hash);
+        if (receipt.status !== '0x1') {
+            throw new TransactionFailedError(hash);
+        }
+
+        this.logger.info('EIP-3009 authorization settled', { hash });
+
+        return this.checkAmount(token, amount, authorization.from.toLowerCase(), hash, expected);
+    }
+
+    private checkAmount(
+        token: EvmToken,
+        amount: bigint,
+        from: string,
+        reference: string,
+        expected: PaymentExpectation
+    ): VerifiedPayment {
+        const amountPaid = Number(amount) / 10 ** token.decimals;
+        if (amount < BigInt(toAtomicAmount(expected.price, token.decimals))) {
+            throw new InsufficientPaymentError(expected.price, amountPaid);
+        }
+
+        this.logger.info('Payment verified', {
+            reference,
+            amount: amountPaid,
+            token: token.address,
+            symbol: token.symbol,
+            from,
+        });
+
+        return { amount: amountPaid, from, asset: token.address, reference };
+    }
+
+    private async waitForReceipt(hash: string): Promise<any> {
+        const deadline = Date.now() + this.settlementTimeout;
+
+        while (Date.now() < deadline) {
+            const receipt = await this.rpc<any>('eth_getTransactionReceipt', [hash]);
+            if (receipt) {
+                return receipt;
+            }
+            await sleep(1000);
+        }
+
+        throw new TransactionNotFoundError(hash);
+    }
+
+    /**
+     * Make a JSON-RPC call and report its duration
+     */
+    private async rpc<T>(method: string, params: unknown[]): Promise<T> {
+        const start = Date.now();
+        try {
+            const result = await this.send<T>(method, params);
+            this.observeRPC(method, (Date.now() - start) / 1000, true);
+            return result;
+        } catch (error) {
+            this.observeRPC(method, (Date.now() - start) / 1000, false);
+            throw error;
+        }
+    }
+
+    private async send<T>(method: string, params: unknown[]): Promise<T> {
+        const response = await fetch(this.rpcUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ jsonrpc: '2.0', id: ++this.rpcId, method, params }),
+            timeout: this.rpcTimeout,
+        });
+
+        if (!response.ok) {
+            throw new Error(`RPC ${method} failed: HTTP ${response.status}`);
+        }
+
+        const body: any = await response.json();
+        if (body.error) {
+            throw new Error(`RPC ${method} failed: ${body.error.message}`);
+        }
+
+        return body.result as T;
+    }
+}
+
+/**
+ * ABI-encode a transferWithAuthorization call with a 65-byte signature split into v, r, s
+ */
+function encodeTransferWithAuthorization(authorization: EIP3009Authorization, signature: string): string {
+    const sig = signature.replace(/^0x/, '');
+    if (sig.length !== 130) {
+        throw new MalformedPaymentError('Authorization signature must be 65 bytes');
+    }
+
+    const r = sig.slice(0, 64);
+    const s = sig.slice(64, 128);
+    let v = parseInt(sig.slice(128, 130), 16);
+    if (v < 27) {
+        v += 27;
+    }
+
+    return (
+        TRANSFER_WITH_AUTHORIZATION_SELECTOR +
+        encodeAddress(authorization.from) +
+        encodeAddress(authorization.to) +
+        encodeUint(authorization.value) +
+        encodeUint(authorization.validAfter) +
+        encodeUint(authorization.validBefore) +
+        encodeBytes32(authorization.nonce) +
+        encodeUint(v) +
+        r +
+        s
+    );
+}
+
+function encodeAddress(address: string): string {
+    return address.toLowerCase().replace(/^0x/, '').padStart(64, '0');
+}
+
+function encodeUint(value: string | number): string {
+    return BigInt(value).toString(16).padStart(64, '0');
+}
+
+function encodeBytes32(value: string): string {
+    return value.replace(/^0x/, '').padStart(64, '0');
+}
+
+function topicToAddress(topic: string): string {
+    return `0x${topic.slice(-40)}`.toLowerCase();
+}
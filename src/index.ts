@@ -1,4 +1,36 @@
 export { createProviderServer } from './server';
 export * from './types';
 export * from './errors';
-export * from './utils';
\ No newline at end of file
+export * from './utils';
+export { MemoryPaymentLedger, FilePaymentLedger, SqlitePaymentLedger } from './payment-ledger';
+export { MemoryRateLimitStore } from './rate-limit';
+export { MemoryCacheStore, cacheKey } from './cache';
+export { MemoryBalanceStore, FileBalanceStore } from './balances';
+export { MemorySessionStore, FileSessionStore } from './sessions';
+export { SolanaVerifier, SolanaVerifierOptions, USDC_MINT } from './solana-verifier';
+export { EvmVerifier, EvmVerifierOptions, EvmToken, EIP3009Authorization } from './evm-verifier';
+export { RefundQueue } from './refunds';
+export { BackendPool } from './balancer';
+export { JobQueue, JobRunner, signWebhook, verifyWebhook } from './jobs';
+export { MemoryCallLedger, JsonlCallLedger, SqliteCallLedger, toCSV } from './call-ledger';
+export {
+    KeypairSigner,
+    loadSigner,
+    walletAddress,
+    loadWalletFromEnv,
+    encryptKeystore,
+    decryptKeystore,
+    DEFAULT_PASSPHRASE_ENV,
+} from './wallet';
+export { createJsonLogger, createConsoleLogger, fromPino, silentLogger, JsonLoggerOptions, PinoLike } from './logger';
+export { PrometheusMetrics } from './prometheus';
+export {
+    loadConfigFile,
+    createServerFromConfig,
+    NodeConfigFile,
+    APIModuleConfig,
+    ProxyAPIFileConfig,
+    BalancedAPIFileConfig,
+    BackendFileConfig,
+    LoadedConfig,
+} from './config';
\ No newline at end of file
@@ -0,0 +1,245 @@
+import { Keypair } from '@solana/web3.js';
+import { mkdtempSync, rmSync } from 'fs';
+import { IncomingHttpHeaders, Server, createServer } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JobQueue, verifyWebhook } from './jobs';
+import { silentLogger } from './logger';
+import { JobConfig, JobRecord } from './types';
+import { KeypairSigner } from './wallet';
+
+type Webhook = { headers: IncomingHttpHeaders; body: string };
+
+const wallet = new KeypairSigner(Keypair.generate());
+const input = (overrides: Partial<JobRecord> = {}) => ({ api: 'test.slow', requestId: 'req', ...overrides });
+
+/**
+ * Resolves after `ms`, or rejects once the job is aborted
+ */
+const work = (ms: number, result: unknown = 'done') => (signal: AbortSignal) =>
+    new Promise<{ result: unknown; cost: number }>((resolve, reject) => {
+        const timer = setTimeout(() => resolve({ result, cost: 0.1 }), ms);
+        signal.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        });
+        if (signal.aborted) {
+            clearTimeout(timer);
+            reject(signal.reason);
+        }
+    });
+
+const waitUntil = async (condition: () => boolean, timeoutMs = 5000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error('Timed out waiting');
+        }
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+};
+
+describe('JobQueue', () => {
+    let queues: JobQueue[];
+
+    const createQueue = (config: JobConfig = {}) => {
+        const queue = new JobQueue(wallet, config, silentLogger);
+        queues.push(queue);
+        return queue;
+    };
+
+    beforeEach(() => {
+        queues = [];
+    });
+
+    afterEach(async () => {
+        await Promise.all(queues.map(queue => queue.stop(100)));
+    });
+
+    it('runs jobs and keeps their results', async () => {
+        const queue = createQueue();
+
+        const job = queue.enqueue(input(), work(1, { answer: 42 }));
+        await waitUntil(() => queue.get(job.id)?.status === 'succeeded');
+
+        expect(queue.get(job.id)).toMatchObject({ result: { answer: 42 }, cost: 0.1 });
+        expect(queue.get(job.id)?.expiresAt).toBeDefined();
+    });
+
+    it('records why a job failed', async () => {
+        const queue = createQueue();
+
+        const job = queue.enqueue(input(), async () => {
+            throw new Error('Upstream unavailable');
+        });
+        await waitUntil(() => queue.get(job.id)?.status === 'failed');
+
+        expect(queue.get(job.id)?.error).toBe('Upstream unavailable');
+    });
+
+    it('runs at most `concurrency` jobs and refuses jobs past `maxQueue`', async () => {
+        const queue = createQueue({ concurrency: 1, maxQueue: 1 });
+
+        const running = queue.enqueue(input(), work(50));
+        const queued = queue.enqueue(input(), work(1));
+
+        expect(queue.get(running.id)?.status).toBe('running');
+        expect(queue.get(queued.id)?.status).toBe('queued');
+        expect(queue.isFull()).toBe(true);
+        expect(() => queue.enqueue(input(), work(1))).toThrow('Job queue is full');
+    });
+
+    it('forgets jobs once their retention has passed', async () => {
+        const queue = createQueue({ retention: 0 });
+
+        const job = queue.enqueue(input(), work(1));
+        await waitUntil(() => queue.get(job.id)?.status !== 'running');
+
+        expect(queue.get(job.id)).toBeUndefined();
+    });
+
+    it('aborts running jobs still going when stop times out', async () => {
+        const queue = createQueue();
+        const job = queue.enqueue(input(), work(10000));
+
+        expect(await queue.stop(10)).toBe(false);
+
+        expect(queue.get(job.id)).toMatchObject({ status: 'failed', error: 'Node stopped before the job finished' });
+    });
+
+    describe('persistence', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), 'x402-jobs-'));
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('keeps finished jobs and hands back interrupted ones after a restart', async () => {
+            const path = join(dir, 'jobs.json');
+            const first = new JobQueue(wallet, { path, concurrency: 1 }, silentLogger);
+            const finished = first.enqueue(input(), work(1));
+            await waitUntil(() => first.get(finished.id)?.status === 'succeeded');
+            // Simulate a crash: the queued job never runs and the queue is never stopped
+            const paid = input({ paymentSignature: 'payment-1', payer: 'payer', held: 0.05 });
+            const interrupted = first.enqueue(paid, () => new Promise(() => undefined));
+
+            const restarted = createQueue({ path });
+
+            expect(restarted.get(finished.id)?.status).toBe('succeeded');
+            expect(restarted.get(interrupted.id)).toMatchObject({
+                status: 'failed',
+                error: 'Node restarted before the job finished',
+            });
+            expect(restarted.takeInterrupted()).toEqual([
+                expect.objectContaining({ id: interrupted.id, paymentSignature: 'payment-1', held: 0.05 }),
+            ]);
+            expect(restarted.takeInterrupted()).toEqual([]);
+        });
+    });
+
+    describe('acceptsCallback', () => {
+        it.each([
+            'http://localhost/hook',
+            'http://api.localhost/hook',
+            'http://127.0.0.1/hook',
+            'http://10.0.0.5/hook',
+            'http://169.254.169.254/latest/meta-data',
+            'http://[::1]/hook',
+            'ftp://example.com/hook',
+            'not a url',
+        ])('rejects %s', url => {
+            expect(createQueue().acceptsCallback(url)).toBe(false);
+        });
+
+        it('accepts public hosts', () => {
+            expect(createQueue().acceptsCallback('https://example.com/hook')).toBe(true);
+        });
+
+        it('accepts only the allowed hosts when they are set', () => {
+            const queue = createQueue({ callbackHosts: ['127.0.0.1', 'Hooks.Example.com'] });
+
+            expect(queue.acceptsCallback('http://127.0.0.1:8080/hook')).toBe(true);
+            expect(queue.acceptsCallback('https://hooks.example.com/hook')).toBe(true);
+            expect(queue.acceptsCallback('https://example.com/hook')).toBe(false);
+        });
+    });
+
+    describe('webhooks', () => {
+        let server: Server;
+        let port: number;
+        let webhooks: Webhook[];
+        let status: number;
+
+        beforeAll(async () => {
+            server = createServer((req, res) => {
+                let body = '';
+                req.on('data', chunk => (body += chunk));
+                req.on('end', () => {
+                    webhooks.push({ headers: req.headers, body });
+                    res.statusCode = status;
+                    res.end();
+                });
+            });
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+            port = (server.address() as AddressInfo).port;
+        });
+
+        afterAll(done => {
+            server.close(done);
+        });
+
+        beforeEach(() => {
+            webhooks = [];
+            status = 200;
+        });
+
+        it('sends a signed webhook when the job finishes', async () => {
+            const queue = createQueue({ callbackHosts: ['127.0.0.1'] });
+
+            const job = queue.enqueue(input({ callbackUrl: `http://127.0.0.1:${port}/hook` }), work(1));
+            await waitUntil(() => !!queue.get(job.id)?.webhook?.delivered);
+
+            const [{ headers, body }] = webhooks;
+            const timestamp = headers['x-webhook-timestamp'] as string;
+            const signature = headers['x-webhook-signature'] as string;
+            const signer = wallet.publicKey.toBase58();
+            expect(headers['x-webhook-wallet']).toBe(signer);
+            expect(JSON.parse(body)).toMatchObject({ id: job.id, status: 'succeeded', result: 'done' });
+            expect(verifyWebhook(body, timestamp, signature, signer)).toBe(true);
+            expect(verifyWebhook(body.replace('done', 'gone'), timestamp, signature, signer)).toBe(false);
+            expect(verifyWebhook(body, String(Number(timestamp) + 1), signature, signer)).toBe(false);
+            expect(verifyWebhook(body, timestamp, signature, Keypair.generate().publicKey.toBase58())).toBe(false);
+            expect(verifyWebhook(body, timestamp, signature, signer, -1)).toBe(false);
+        });
+
+        it('retries a webhook the receiver rejected', async () => {
+            status = 500;
+            const queue = createQueue({ callbackHosts: ['127.0.0.1'], webhookAttempts: 2 });
+
+            const job = queue.enqueue(input({ callbackUrl: `http://127.0.0.1:${port}/hook` }), work(1));
+            await waitUntil(() => webhooks.length === 1);
+            status = 200;
+            await waitUntil(() => !!queue.get(job.id)?.webhook?.delivered);
+
+            expect(queue.get(job.id)?.webhook).toEqual({ delivered: true, attempts: 2 });
+        });
+
+        it('refuses to deliver to a hostname that resolves to a private address', async () => {
+            const queue = createQueue({ webhookAttempts: 1 });
+
+            const job = queue.enqueue(input({ callbackUrl: `http://localhost:${port}/hook` }), work(1));
+            await waitUntil(() => !!queue.get(job.id)?.webhook?.lastError);
+
+            expect(queue.get(job.id)?.webhook).toMatchObject({
+                delivered: false,
+                lastError: expect.stringContaining('resolves to a private address'),
+            });
+            expect(webhooks).toHaveLength(0);
+        });
+    });
+});
@@ -0,0 +1,392 @@
+import { PublicKey } from '@solana/web3.js';
+import { lookup } from 'dns';
+import { existsSync, readFileSync } from 'fs';
+import { Agent as HttpAgent } from 'http';
+import { Agent as HttpsAgent } from 'https';
+import { LookupFunction } from 'net';
+import fetch from 'node-fetch';
+import nacl from 'tweetnacl';
+import { defaultLogger } from './logger';
+import { JobConfig, JobRecord, JobStatus, Logger, Signer } from './types';
+import { generateRequestId, isHttpUrl, isPrivateAddress, sleep, writeFileAtomic } from './utils';
+
+// How often expired jobs are deleted
+const SWEEP_INTERVAL_MS = 60000;
+
+// How long aborted jobs get to clean up on stop
+const ABORT_GRACE_MS = 1000;
+
+// Webhooks older than this are rejected by `verifyWebhook`
+const WEBHOOK_MAX_AGE_MS = 300000;
+
+/**
+ * DNS lookup that fails for private addresses, so a callback hostname can't be
+ * pointed at the node's own network
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+    lookup(hostname, options, (error, address, family) => {
+        const addresses = typeof address === 'string' ? [address] : (address ?? []).map(entry => entry.address);
+        if (!error && addresses.some(isPrivateAddress)) {
+            callback(new Error(`${hostname} resolves to a private address`), '', 0);
+            return;
+        }
+        callback(error, address, family);
+    });
+};
+
+const publicAgents = {
+    http: new HttpAgent({ lookup: publicLookup }),
+    https: new HttpsAgent({ lookup: publicLookup }),
+};
+
+/**
+ * Runs a job's handler. The signal aborts when the node stops before the job finishes.
+ */
+export type JobRunner = (signal: AbortSignal) => Promise<{ result: unknown; cost: number }>;
+
+type JobInput = Pick<
+    JobRecord,
+    'api' | 'requestId' | 'callbackUrl' | 'paymentSignature' | 'payer' | 'chain' | 'asset' | 'amount' | 'held'
+>;
+
+/**
+ * Bounded worker queue for async API calls.
+ *
+ * Job state is persisted so results survive restarts until they expire, but the
+ * work itself can't be resumed: jobs that were queued or running when the node
+ * stopped are failed on load and returned by `takeInterrupted()`.
+ */
+export class JobQueue {
+    private wallet: Signer;
+    private path?: string;
+    private concurrency: number;
+    private maxQueue: number;
+    private retentionMs: number;
+    private webhookAttempts: number;
+    private webhookTimeout: number;
+    private callbackHosts?: Set<string>;
+    private logger: Logger;
+    private jobs = new Map<string, JobRecord>();
+    private pending: Array<{ id: string; run: JobRunner }> = [];
+    private running = new Map<string, AbortController>();
+    private idleWaiters = new Set<() => void>();
+    private interrupted: JobRecord[] = [];
+    private timer?: NodeJS.Timeout;
+    private stopped = false;
+
+    constructor(wallet: Signer, config: JobConfig = {}, logger: Logger = defaultLogger) {
+        this.wallet = wallet;
+        this.path = config.path;
+        this.concurrency = config.concurrency ?? 2;
+        this.maxQueue = config.maxQueue ?? 100;
+        this.retentionMs = (config.retention ?? 86400) * 1000;
+        this.webhookAttempts = config.webhookAttempts ?? 3;
+        this.webhookTimeout = config.webhookTimeout ?? 10000;
+        this.callbackHosts = config.callbackHosts && new Set(config.callbackHosts.map(host => host.toLowerCase()));
+        this.logger = logger;
+
+        if (config.path && existsSync(config.path)) {
+            try {
+                const jobs: JobRecord[] = JSON.parse(readFileSync(config.path, 'utf-8'));
+                for (const job of jobs) {
+                    this.jobs.set(job.id, job);
+                    if (!isFinished(job.status)) {
+                        this.finish(job, 'failed', { error: 'Node restarted before the job finished' });
+                        this.interrupted.push({ ...job });
+                    }
+                }
+            } catch (error) {
+                throw new Error(`Failed to load jobs from ${config.path}: ${error}`);
+            }
+            this.persist();
+        }
+    }
+
+    /**
+     * Whether the queue has room for another job
+     */
+    isFull(): boolean {
+        return this.stopped || this.pending.length >= this.maxQueue;
+    }
+
+    /**
+     * Whether webhooks may be sent to a URL. With `callbackHosts` set only those hosts
+     * are accepted; otherwise any host that isn't a private address or localhost.
+     * Hostnames are checked again against the addresses they resolve to on delivery.
+     */
+    acceptsCallback(url: unknown): url is string {
+        if (!isHttpUrl(url)) {
+            return false;
+        }
+
+        // IPv6 hostnames keep their brackets
+        const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+        if (this.callbackHosts) {
+            return this.callbackHosts.has(hostname);
+        }
+        return hostname !== 'localhost' && !hostname.endsWith('.localhost') && !isPrivateAddress(hostname);
+    }
+
+    /**
+     * Queue a job. Throws if the queue is full.
+     */
+    enqueue(input: JobInput, run: JobRunner): JobRecord {
+        if (this.isFull()) {
+            throw new Error('Job queue is full');
+        }
+
+        const now = new Date().toISOString();
+        const job: JobRecord = { ...input, id: generateRequestId(), status: 'queued', createdAt: now, updatedAt: now };
+
+        this.jobs.set(job.id, job);
+        this.pending.push({ id: job.id, run });
+        this.persist();
+        this.next();
+
+        return { ...job };
+    }
+
+    /**
+     * Look up a job that hasn't expired
+     */
+    get(id: string): JobRecord | undefined {
+        const job = this.jobs.get(id);
+        if (!job || (job.expiresAt && Date.parse(job.expiresAt) <= Date.now())) {
+            return undefined;
+        }
+        return { ...job };
+    }
+
+    /**
+     * Jobs failed on load because the node stopped while they were queued or running.
+     * Each is returned once.
+     */
+    takeInterrupted(): JobRecord[] {
+        const interrupted = this.interrupted;
+        this.interrupted = [];
+        return interrupted;
+    }
+
+    /**
+     * Start deleting expired jobs in the background
+     */
+    start(): void {
+        this.timer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+        this.sweep();
+    }
+
+    /**
+     * Stop taking jobs and wait for running ones. Queued jobs are run with an
+     * aborted signal so their runners can clean up, and jobs still running after
+     * the timeout are aborted. Resolves to false if the timeout was reached.
+     */
+    async stop(timeoutMs: number): Promise<boolean> {
+        this.stopped = true;
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+
+        for (const { id, run } of this.pending.splice(0)) {
+            void this.execute(id, run, new Error('Node stopped before the job started'));
+        }
+
+        const idle = await this.waitForIdle(timeoutMs);
+        if (!idle) {
+            for (const controller of this.running.values()) {
+                controller.abort(new Error('Node stopped before the job finished'));
+            }
+            // Give aborted runners a moment to release holds and queue refunds
+            await this.waitForIdle(ABORT_GRACE_MS);
+        }
+        return idle;
+    }
+
+    private waitForIdle(timeoutMs: number): Promise<boolean> {
+        if (this.running.size === 0) {
+            return Promise.resolve(true);
+        }
+
+        return new Promise(resolve => {
+            const onIdle = () => done(true);
+            const timer = setTimeout(() => done(false), timeoutMs);
+            const done = (result: boolean) => {
+                clearTimeout(timer);
+                this.idleWaiters.delete(onIdle);
+                resolve(result);
+            };
+            this.idleWaiters.add(onIdle);
+        });
+    }
+
+    private next(): void {
+        while (!this.stopped && this.running.size < this.concurrency && this.pending.length > 0) {
+            const { id, run } = this.pending.shift()!;
+            void this.execute(id, run);
+        }
+    }
+
+    private async execute(id: string, run: JobRunner, abortReason?: Error): Promise<void> {
+        const job = this.jobs.get(id);
+        if (!job) {
+            return;
+        }
+
+        const controller = new AbortController();
+        if (abortReason) {
+            controller.abort(abortReason);
+        }
+        this.running.set(id, controller);
+        job.status = 'running';
+        job.startedAt = new Date().toISOString();
+        this.update(job);
+
+        try {
+            const { result, cost } = await run(controller.signal);
+            this.finish(job, 'succeeded', { result, cost });
+        } catch (error) {
+            this.finish(job, 'failed', { error: error instanceof Error ? error.message : String(error) });
+        } finally {
+            this.running.delete(id);
+            if (this.running.size === 0) {
+                this.idleWaiters.forEach(resolve => resolve());
+            }
+            this.next();
+        }
+
+        if (job.callbackUrl) {
+            await this.notify(job);
+        }
+    }
+
+    private finish(job: JobRecord, status: JobStatus, outcome: Pick<JobRecord, 'result' | 'cost' | 'error'>): void {
+        const now = Date.now();
+        Object.assign(job, outcome, {
+            status,
+            finishedAt: new Date(now).toISOString(),
+            expiresAt: new Date(now + this.retentionMs).toISOString(),
+        });
+        this.update(job);
+    }
+
+    /**
+     * POST the finished job to its callback URL, retrying with backoff
+     */
+    private async notify(job: JobRecord): Promise<void> {
+        job.webhook = { delivered: false, attempts: 0 };
+
+        // A job finishing while the node stops still gets one attempt
+        while (job.webhook.attempts < this.webhookAttempts && (job.webhook.attempts === 0 || !this.stopped)) {
+            if (job.webhook.attempts > 0) {
+                await sleep(1000 * 2 ** (job.webhook.attempts - 1));
+            }
+            job.webhook.attempts++;
+
+            try {
+                const { webhook, ...payload } = job;
+                const body = JSON.stringify(payload);
+                const timestamp = Date.now().toString();
+                const response = await fetch(job.callbackUrl!, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'X-Webhook-Wallet': this.wallet.publicKey.toBase58(),
+                        'X-Webhook-Timestamp': timestamp,
+                        'X-Webhook-Signature': await signWebhook(this.wallet, timestamp, body),
+                    },
+                    body,
+                    timeout: this.webhookTimeout,
+                    // A redirect could lead to a private address
+                    redirect: 'manual',
+                    // Allowed hosts are trusted; any other host is checked when resolved
+                    ...(!this.callbackHosts && {
+                        agent: ({ protocol }: URL) => (protocol === 'http:' ? publicAgents.http : publicAgents.https),
+                    }),
+                });
+                if (!response.ok) {
+                    throw new Error(`Callback responded with ${response.status}`);
+                }
+
+                job.webhook.delivered = true;
+                delete job.webhook.lastError;
+                this.update(job);
+                return;
+            } catch (error) {
+                job.webhook.lastError = error instanceof Error ? error.message : String(error);
+                this.update(job);
+            }
+        }
+
+        this.logger.warn('Job webhook failed', { jobId: job.id, requestId: job.requestId, ...job.webhook });
+    }
+
+    private sweep(): void {
+        const now = Date.now();
+        let removed = false;
+        for (const [id, job] of this.jobs) {
+            if (job.expiresAt && Date.parse(job.expiresAt) <= now) {
+                this.jobs.delete(id);
+                removed = true;
+            }
+        }
+        if (removed) {
+            this.persist();
+        }
+    }
+
+    private update(job: JobRecord): void {
+        job.updatedAt = new Date().toISOString();
+        this.persist();
+    }
+
+    private persist(): void {
+        if (!this.path) {
+            return;
+        }
+
+        writeFileAtomic(this.path, JSON.stringify(Array.from(this.jobs.values()), null, 2));
+    }
+}
+
+/**
+ * Sign a webhook body: a base64 ed25519 signature of `x402-webhook:<wallet>:<timestamp>:<body>`
+ */
+export async function signWebhook(wallet: Signer, timestamp: string, body: string): Promise<string> {
+    const message = webhookMessage(wallet.publicKey.toBase58(), timestamp, body);
+    return Buffer.from(await wallet.signMessage(message)).toString('base64');
+}
+
+/**
+ * Check a webhook's `X-Webhook-Timestamp` and `X-Webhook-Signature` against the
+ * raw body and the provider's wallet address
+ */
+export function verifyWebhook(
+    body: string,
+    timestamp: string,
+    signature: string,
+    wallet: string,
+    maxAgeMs = WEBHOOK_MAX_AGE_MS
+): boolean {
+    if (!(Math.abs(Date.now() - Number(timestamp)) <= maxAgeMs)) {
+        return false;
+    }
+
+    try {
+        return nacl.sign.detached.verify(
+            webhookMessage(wallet, timestamp, body),
+            Buffer.from(signature, 'base64'),
+            new PublicKey(wallet).toBytes()
+        );
+    } catch {
+        return false;
+    }
+}
+
+// The prefix keeps webhook signatures from being valid for any other signed message
+function webhookMessage(wallet: string, timestamp: string, body: string): Uint8Array {
+    return new TextEncoder().encode(`x402-webhook:${wallet}:${timestamp}:${body}`);
+}
+
+function isFinished(status: JobStatus): boolean {
+    return status === 'succeeded' || status === 'failed';
+}
@@ -0,0 +1,115 @@
+import { LogLevel, Logger } from './types';
+
+type Meta = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * JSON logger options
+ */
+export interface JsonLoggerOptions {
+    /** Lowest level written (default: 'info') */
+    level?: LogLevel;
+
+    /** Fields added to every entry */
+    bindings?: Meta;
+
+    /** Output for each line (default: stdout) */
+    write?: (line: string) => void;
+}
+
+/**
+ * Logger that writes one JSON object per line: `{ level, time, msg, ...bindings, ...meta }`
+ */
+export function createJsonLogger(options: JsonLoggerOptions = {}): Logger {
+    const { level = 'info', bindings = {}, write = line => process.stdout.write(`${line}\n`) } = options;
+
+    const log = (entryLevel: LogLevel) => (message: string, meta?: Meta) => {
+        if (LEVELS[entryLevel] < LEVELS[level]) {
+            return;
+        }
+        write(
+            JSON.stringify(
+                { level: entryLevel, time: new Date().toISOString(), msg: message, ...bindings, ...meta },
+                serializeErrors
+            )
+        );
+    };
+
+    return {
+        debug: log('debug'),
+        info: log('info'),
+        warn: log('warn'),
+        error: log('error'),
+        child: childBindings => createJsonLogger({ level, write, bindings: { ...bindings, ...childBindings } }),
+    };
+}
+
+/**
+ * Human-readable logger that writes to the console, prefixed with a scope such as a request ID
+ */
+export function createConsoleLogger(scope?: string, bindings: Meta = {}): Logger {
+    const prefix = scope ? `[${scope}] ` : '';
+    const write = (fn: (...args: unknown[]) => void) => (message: string, meta?: Meta) => {
+        const fields = { ...bindings, ...meta };
+        return Object.keys(fields).length > 0 ? fn(`${prefix}${message}`, fields) : fn(`${prefix}${message}`);
+    };
+
+    return {
+        debug: write(console.debug),
+        info: write(console.log),
+        warn: write(console.warn),
+        error: write(console.error),
+        child: childBindings => createConsoleLogger(scope, { ...bindings, ...childBindings }),
+    };
+}
+
+/**
+ * The subset of a pino logger used by `fromPino`
+ */
+export interface PinoLike {
+    debug: (obj: Meta, msg: string) => void;
+    info: (obj: Meta, msg: string) => void;
+    warn: (obj: Meta, msg: string) => void;
+    error: (obj: Meta, msg: string) => void;
+    child: (bindings: Meta) => PinoLike;
+}
+
+/**
+ * Adapt a pino (or pino-compatible) logger
+ */
+export function fromPino(pino: PinoLike): Logger {
+    return {
+        debug: (message, meta) => pino.debug(meta ?? {}, message),
+        info: (message, meta) => pino.info(meta ?? {}, message),
+        warn: (message, meta) => pino.warn(meta ?? {}, message),
+        error: (message, meta) => pino.error(meta ?? {}, message),
+        child: bindings => fromPino(pino.child(bindings)),
+    };
+}
+
+/**
+ * Logger that discards everything
+ */
+export const silentLogger: Logger = {
+    debug: () => undefined,
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined,
+    child: () => silentLogger,
+};
+
+/**
+ * Logger used by components created without one
+ */
+export const defaultLogger: Logger = createJsonLogger();
+
+/**
+ * JSON.stringify drops Error fields, so write them out explicitly
+ */
+function serializeErrors(_key: string, value: unknown): unknown {
+    if (value instanceof Error) {
+        return { name: value.name, message: value.message, stack: value.stack };
+    }
+    return typeof value === 'bigint' ? value.toString() : value;
+}
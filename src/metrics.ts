@@ -0,0 +1,86 @@
+import { roundAmount } from './balances';
+import { APIMetrics, WindowedMetrics } from './types';
+
+interface Sample {
+    time: number;
+    api: string;
+    latency: number;
+    ok: boolean;
+    earnings: number;
+}
+
+/**
+ * Keeps recent call outcomes and summarizes them over a sliding window.
+ * Recording is synchronous and in-memory, so the request path never waits on it.
+ */
+export class MetricsAggregator {
+    private windowMs: number;
+    private maxSamples: number;
+    private samples: Sample[] = [];
+
+    constructor(windowMs = 300000, maxSamples = 50000) {
+        this.windowMs = windowMs;
+        this.maxSamples = maxSamples;
+    }
+
+    /**
+     * Record a finished call
+     */
+    record(api: string, latency: number, ok: boolean, earnings = 0): void {
+        this.samples.push({ time: Date.now(), api, latency, ok, earnings });
+
+        if (this.samples.length > this.maxSamples) {
+            this.samples.splice(0, this.samples.length - this.maxSamples);
+        }
+    }
+
+    /**
+     * Summarize the calls inside the window, overall and per API
+     */
+    snapshot(): WindowedMetrics {
+        this.prune();
+
+        const byAPI = new Map<string, Sample[]>();
+        for (const sample of this.samples) {
+            const samples = byAPI.get(sample.api) ?? [];
+            samples.push(sample);
+            byAPI.set(sample.api, samples);
+        }
+
+        return {
+            windowMs: this.windowMs,
+            ...summarize(this.samples),
+            apis: Object.fromEntries(Array.from(byAPI.entries()).map(([api, samples]) => [api, summarize(samples)])),
+        };
+    }
+
+    private prune(): void {
+        const cutoff = Date.now() - this.windowMs;
+        const firstInWindow = this.samples.findIndex(sample => sample.time >= cutoff);
+        this.samples.splice(0, firstInWindow === -1 ? this.samples.length : firstInWindow);
+    }
+}
+
+function summarize(samples: Sample[]): APIMetrics {
+    const latencies = samples.map(s => s.latency).sort((a, b) => a - b);
+    const errors = samples.filter(s => !s.ok).length;
+
+    return {
+        requests: samples.length,
+        errors,
+        errorRate: samples.length > 0 ? errors / samples.length : 0,
+        p50: percentile(latencies, 0.5),
+        p95: percentile(latencies, 0.95),
+        earnings: roundAmount(samples.reduce((sum, s) => sum + s.earnings, 0)),
+    };
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) {
+        return 0;
+    }
+    return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+}
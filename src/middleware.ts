@@ -1,199 +1,208 @@
 import { Request, Response, NextFunction } from 'express';
-import { Keypair, Connection, PublicKey } from '@solana/web3.js';
-import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
-import { Chain, CHAIN_CONFIGS } from '@x402apis/protocol';
-import { PaymentError } from './errors';
+import { Chain } from '@x402apis/protocol';
+import { InvalidSessionError, PaymentError, PaymentReplayError, UnsupportedChainError } from './errors';
+import {
+    APIConfig,
+    BalanceStore,
+    ChainVerifier,
+    Logger,
+    PaymentConfig,
+    PaymentLedger,
+    PaymentRequiredBody,
+} from './types';
+import { generateRequestId } from './utils';
+import { silentLogger } from './logger';
+import { createPayerAuthVerifier } from './balances';
+import { SessionManager, isSessionToken } from './sessions';
+import { NonceIssuer, X402_VERSION, buildPaymentRequirements } from './payment-requirements';
 
-// Mainnet USDC Mint Address (6 decimals)
-const USDC_MINT = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+/**
+ * Payment middleware options
+ */
+export interface PaymentMiddlewareOptions {
+    /** Verifiers for the enabled chains */
+    verifiers: ChainVerifier[];
+
+    /** Ledger of consumed payment signatures */
+    ledger: PaymentLedger;
+
+    /** Look up a registered API's configuration */
+    getAPIConfig: (api: string) => APIConfig | undefined;
+
+    /** Price the items of a `/batch` request, or undefined if the batch is invalid */
+    getBatchPrice?: (items: unknown) => number | undefined;
+
+    /** Payment verification settings */
+    payment?: PaymentConfig;
+
+    /** Accepts session tokens in X-Payment when set */
+    sessions?: SessionManager;
+
+    /** Accepts X-Payer-Auth to pay from a prepaid balance when set */
+    balances?: BalanceStore;
+
+    /** Logger for rejected payments */
+    logger?: Logger;
+
+    /** Called with 'verified' or the rejection reason for each payment checked */
+    onVerification?: (chain: string, outcome: string) => void;
+}
 
 /**
  * x402 payment verification middleware
  */
-export function paymentMiddleware(wallet: Keypair, chains: Chain[]) {
-    const providersConnection = new Map<Chain, Connection>();
-
-    if (chains.includes('solana')) {
-        const rpc = CHAIN_CONFIGS.solana.rpcEndpoint;
-        providersConnection.set('solana', new Connection(rpc));
-        console.log(`📡 Connected to Solana RPC: ${rpc}`);
-    }
+export function paymentMiddleware(options: PaymentMiddlewareOptions) {
+    const {
+        verifiers,
+        ledger,
+        getAPIConfig,
+        getBatchPrice = () => undefined,
+        payment: paymentConfig = {},
+        sessions,
+        balances,
+        logger = silentLogger,
+        onVerification = () => undefined,
+    } = options;
+    const { requireMemo = false, challengeTimeout = 300, maxPaymentAge = challengeTimeout } = paymentConfig;
+    const chains = verifiers.map(verifier => verifier.chain);
+    // Nonces are only tracked when payments have to carry one
+    const nonces = requireMemo ? new NonceIssuer(challengeTimeout * 1000) : undefined;
+    const verifyPayerAuth = createPayerAuthVerifier();
 
     return async (req: Request, res: Response, next: NextFunction) => {
-        if (req.path === '/health') {
-            return next();
-        }
+        const requestId = generateRequestId();
+        (req as any).requestId = requestId;
+        let chain: Chain = 'solana';
 
         try {
-            // The X-Payment header is now ALWAYS expected to be a transaction signature.
+            // The X-Payment header is a payment proof for the chain or a session token.
             const paymentToken = req.headers['x-payment'] as string;
-            const chain = (req.headers['x-payment-chain'] as Chain) || 'solana';
+            chain = (req.headers['x-payment-chain'] as Chain) || chain;
+            // A batch is paid for as a whole
+            const batch = req.path === '/batch';
+            const api = batch ? 'batch' : typeof req.body?.api === 'string' ? req.body.api : undefined;
+            const price = batch ? getBatchPrice(req.body?.items) : api ? getAPIConfig(api)?.price : undefined;
 
+            // 'free-api-call' is a legacy placeholder from the browser client and carries no payment
             if (!paymentToken || paymentToken === 'free-api-call') {
-                // Handle the placeholder token for free calls from the browser client
-                console.log("ℹ️  Received free API call proof. Allowing access.");
-                (req as any).payment = { amount: 0, from: 'unknown', signature: paymentToken, chain };
+                // Unknown APIs and invalid batches are reported by the route itself
+                if (!api || price === undefined) {
+                    return next();
+                }
+
+                // Only APIs explicitly priced at 0 are free
+                if (price === 0) {
+                    (req as any).payment = { amount: 0, from: 'unknown', chain };
+                    return next();
+                }
+
+                // Pay from a prepaid balance; the route places the hold
+                const payerAuth = req.headers['x-payer-auth'] as string | undefined;
+                if (payerAuth && balances) {
+                    const wallet = verifyPayerAuth(payerAuth);
+                    if (!wallet) {
+                        return res.status(401).json({ error: 'Invalid or expired X-Payer-Auth header' });
+                    }
+
+                    (req as any).payment = { amount: 0, from: wallet, chain };
+                    return next();
+                }
+
+                const body: PaymentRequiredBody = {
+                    x402Version: X402_VERSION,
+                    error: 'X-Payment header is required',
+                    accepts: buildPaymentRequirements({
+                        api,
+                        price,
+                        verifiers,
+                        resource: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
+                        nonces,
+                        timeoutSeconds: challengeTimeout,
+                    }),
+                };
+                return res.status(402).json(body);
+            }
+
+            // Session tokens are checked locally; the route meters their usage
+            if (sessions && isSessionToken(paymentToken)) {
+                const claims = sessions.verify(paymentToken);
+                const apis: unknown[] = batch
+                    ? (Array.isArray(req.body?.items) ? req.body.items : []).map((item: any) => item?.api)
+                    : [api];
+                const uncovered =
+                    claims.apis && apis.find(name => typeof name === 'string' && !claims.apis!.includes(name));
+                if (uncovered) {
+                    throw new InvalidSessionError(`Session does not cover ${uncovered}`);
+                }
+
+                (req as any).payment = { amount: 0, from: claims.sub, chain: claims.chain, session: claims };
+                onVerification(claims.chain, 'verified');
                 return next();
             }
 
-            if (!chains.includes(chain)) {
-                return res.status(400).json({ error: 'Unsupported chain', supported: chains });
+            const verifier = verifiers.find(v => v.chain === chain);
+            if (!verifier) {
+                throw new UnsupportedChainError(chain);
             }
 
-            const payment = await verifyPayment(paymentToken, chain, wallet, providersConnection);
+            const payment = await verifier.verify(paymentToken, {
+                api: api ?? '',
+                // Unknown APIs are rejected by the route, which releases the claim
+                price: price ?? 0,
+                // Deposits aren't answering a challenge, so they carry no nonce
+                consumeNonce: nonces && api ? nonce => nonces.consume(nonce, api) : undefined,
+                maxAge: maxPaymentAge,
+            });
+
+            // Consume the payment so it can't pay for another request
+            const claimed = await ledger.claim({
+                signature: payment.reference,
+                chain,
+                api: api ?? '',
+                requestId,
+                amount: payment.amount,
+                from: payment.from,
+            });
 
-            if (!payment.valid) {
-                return res.status(402).json({ error: 'Invalid payment', message: payment.error });
+            if (!claimed) {
+                throw new PaymentReplayError(payment.reference);
             }
 
             (req as any).payment = {
                 amount: payment.amount,
                 from: payment.from,
-                signature: paymentToken,
+                signature: payment.reference,
                 chain,
+                asset: payment.asset,
             };
+            onVerification(chain, 'verified');
 
             next();
         } catch (error) {
+            const reason = error instanceof PaymentError ? error.reason : 'verification_failed';
+            // The chain header is caller-controlled, so don't let it mint new metric labels
+            onVerification(chains.includes(chain) ? chain : 'unknown', reason);
+            logger.warn('Payment rejected', {
+                requestId,
+                chain,
+                reason,
+                message: error instanceof Error ? error.message : String(error),
+            });
+
+            if (error instanceof PaymentError) {
+                return res.status(error.reason === 'unsupported_chain' ? 400 : 402).json({
+                    error: 'Invalid payment',
+                    reason: error.reason,
+                    message: error.message,
+                    ...(error.reason === 'unsupported_chain' && { supported: chains }),
+                });
+            }
+
             res.status(402).json({
                 error: 'Payment verification failed',
+                reason: 'verification_failed',
                 message: error instanceof Error ? error.message : 'Unknown error',
             });
         }
     };
 }
-
-/**
- * Verify payment by checking the blockchain.
- */
-async function verifyPayment(
-    token: string,
-    chain: Chain,
-    wallet: Keypair,
-    connections: Map<Chain, Connection>
-): Promise<{
-    valid: boolean;
-    amount?: number;
-    from?: string;
-    signature?: string;
-    error?: string;
-}> {
-    if (chain === 'solana') {
-        // The logic now ONLY calls the on-chain verification.
-        return verifySolanaOnChainPayment(token, wallet, connections.get('solana'));
-    }
-
-
-    return { valid: false, error: 'Unsupported chain for payment verification.' };
-}
-
-/**
- * Perform on-chain SPL Token (USDC) transfer verification on Solana.
- * This version includes detailed logging for debugging.
- */
-async function verifySolanaOnChainPayment(
-    transactionSignature: string,
-    providerWallet: Keypair,
-    connection?: Connection
-): Promise<{
-    valid: boolean;
-    amount?: number;
-    from?: string;
-    signature?: string;
-    error?: string;
-}> {
-    if (!connection) {
-        return { valid: false, error: 'Solana connection not established.' };
-    }
-
-    if (!transactionSignature || typeof transactionSignature !== 'string') {
-        return { valid: false, error: 'Invalid transaction signature: empty or not a string.' };
-    }
-
-    try {
-        console.log(`🔍 Verifying transaction: ${transactionSignature}`);
-
-        // 1. Fetch the transaction details from the blockchain.
-        const tx = await connection.getParsedTransaction(
-            transactionSignature,
-            { maxSupportedTransactionVersion: 0, commitment: 'confirmed' }
-        );
-
-        // 2. Check if the transaction exists and was successful.
-        if (!tx) {
-            console.error(`[VERIFICATION FAILED] Transaction signature not found on-chain: ${transactionSignature}`);
-            return { valid: false, error: 'Transaction not found.' };
-        }
-        if (tx.meta && tx.meta.err) {
-            console.error(`[VERIFICATION FAILED] Transaction has an on-chain error:`, tx.meta.err);
-            return { valid: false, error: 'Transaction failed on-chain.' };
-        }
-
-        // 3. Find the specific SPL Token transfer instruction within the transaction.
-        const parsedInstructions = tx.transaction.message.instructions.filter(
-            ix => 'parsed' in ix && ix.programId.toBase58() === TOKEN_PROGRAM_ID.toBase58()
-        ) as any[];
-
-        const transferInstruction = parsedInstructions.find(
-            ix => ix.parsed?.type === 'transfer' || ix.parsed?.type === 'transferChecked'
-        );
-
-        if (!transferInstruction) {
-            console.error("[VERIFICATION FAILED] No valid SPL Token transfer instruction was found in the transaction.");
-            return { valid: false, error: 'No valid SPL Token transfer instruction found.' };
-        }
-
-        // 4. Extract key details from the transfer instruction.
-        const { destination, amount, authority } = transferInstruction.parsed.info;
-        const providerPubkeyBase58 = providerWallet.publicKey.toBase58();
-
-        // 5. Verify that the payment was sent to an account owned by the provider.
-        const destinationAccountData = await connection.getParsedAccountInfo(new PublicKey(destination));
-        if (!destinationAccountData.value?.data) {
-            console.error(`[VERIFICATION FAILED] The destination token account (${destination}) does not exist.`);
-            return { valid: false, error: 'Destination token account not found.' };
-        }
-
-        const destinationOwnerPubkey = (destinationAccountData.value.data as any)?.parsed?.info?.owner;
-
-        if (!destinationOwnerPubkey) {
-            console.error("[VERIFICATION FAILED] Could not determine the owner of the destination token account.");
-            return { valid: false, error: 'Could not determine the owner of the destination token account.' };
-        }
-
-        if (destinationOwnerPubkey !== providerPubkeyBase58) {
-            console.error(`[VERIFICATION FAILED] Payment sent to the wrong wallet.
-              - Expected Owner: ${providerPubkeyBase58}
-              - Actual Owner:   ${destinationOwnerPubkey}`);
-            return {
-                valid: false,
-                error: `Payment was sent to an incorrect account.`
-            };
-        }
-
-        // 6. Verify the amount paid.
-        const rawAmount = amount || transferInstruction.parsed.info.tokenAmount?.amount;
-        const amountPaid = Number(rawAmount) / 1_000_000; // USDC has 6 decimals
-
-        if (amountPaid < 0 || isNaN(amountPaid)) {
-            console.error(`[VERIFICATION FAILED] Invalid payment amount detected: ${rawAmount}`);
-            return { valid: false, error: 'Invalid payment amount.' };
-        }
-
-        // If all checks pass:
-        console.log(`✅ Payment verified: ${amountPaid.toFixed(6)} USDC from sender ${authority}`);
-
-        return {
-            valid: true,
-            amount: amountPaid,
-            from: authority,
-            signature: transactionSignature,
-        };
-    } catch (error) {
-        console.error('An unexpected error occurred during Solana verification:', error);
-        return {
-            valid: false,
-            error: `On-chain verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-        };
-    }
-}
@@ -0,0 +1,163 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FilePaymentLedger, MemoryPaymentLedger } from './payment-ledger';
+
+const claimInput = (signature: string) => ({
+    signature,
+    chain: 'solana' as const,
+    api: 'test.echo',
+    requestId: 'req-1',
+    amount: 0.01,
+    from: 'payer',
+});
+
+describe('MemoryPaymentLedger', () => {
+    it('claims a signature once', async () => {
+        const ledger = new MemoryPaymentLedger();
+
+        expect(await ledger.claim(claimInput('sig'))).toBe(true);
+        expect(await ledger.claim(claimInput('sig'))).toBe(false);
+        expect((await ledger.get('sig'))?.status).toBe('pending');
+    });
+
+    it('lets concurrent claims of the same signature through only once', async () => {
+        const ledger = new MemoryPaymentLedger();
+
+        const results = await Promise.all(Array.from({ length: 10 }, () => ledger.claim(claimInput('sig'))));
+
+        expect(results.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('frees a released pending claim for reuse', async () => {
+        const ledger = new MemoryPaymentLedger();
+        await ledger.claim(claimInput('sig'));
+
+        await ledger.release('sig');
+
+        expect(await ledger.get('sig')).toBeUndefined();
+        expect(await ledger.claim(claimInput('sig'))).toBe(true);
+    });
+
+    it('never releases a spent or refundable payment', async () => {
+        const ledger = new MemoryPaymentLedger();
+        await ledger.claim(claimInput('spent'));
+        await ledger.claim(claimInput('failed'));
+        await ledger.markSpent('spent');
+        await ledger.markRefundable('failed', 'Handler threw');
+
+        await ledger.release('spent');
+        await ledger.release('failed');
+
+        expect(await ledger.claim(claimInput('spent'))).toBe(false);
+        expect(await ledger.claim(claimInput('failed'))).toBe(false);
+        expect(await ledger.get('failed')).toMatchObject({ status: 'refundable', reason: 'Handler threw' });
+    });
+
+    it('records the refund of a refundable payment', async () => {
+        const ledger = new MemoryPaymentLedger();
+        await ledger.claim(claimInput('sig'));
+        await ledger.markRefundable('sig', 'Timed out');
+
+        await ledger.markRefunded('sig', 'refund-sig');
+
+        expect(await ledger.get('sig')).toMatchObject({
+            status: 'refunded',
+            reason: 'Timed out',
+            refundSignature: 'refund-sig',
+        });
+    });
+});
+
+describe('FilePaymentLedger', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'x402-ledger-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('rejects replays of signatures claimed before a restart', async () => {
+        const path = join(dir, 'payments.jsonl');
+        const ledger = new FilePaymentLedger(path);
+        await ledger.claim(claimInput('sig'));
+        await ledger.markSpent('sig');
+
+        const reopened = new FilePaymentLedger(path);
+
+        expect(await reopened.claim(claimInput('sig'))).toBe(false);
+        expect((await reopened.get('sig'))?.status).toBe('spent');
+    });
+
+    it('persists releases', async () => {
+        const path = join(dir, 'payments.jsonl');
+        const ledger = new FilePaymentLedger(path);
+        await ledger.claim(claimInput('sig'));
+        await ledger.release('sig');
+
+        expect(await new FilePaymentLedger(path).claim(claimInput('sig'))).toBe(true);
+    });
+
+    it('appends a line per change and compacts the log when it reopens', async () => {
+        const path = join(dir, 'payments.jsonl');
+        const ledger = new FilePaymentLedger(path);
+        await ledger.claim(claimInput('sig-1'));
+        await ledger.markSpent('sig-1');
+        await ledger.claim(claimInput('sig-2'));
+        await ledger.release('sig-2');
+
+        expect(readLines(path)).toHaveLength(4);
+
+        new FilePaymentLedger(path);
+
+        expect(readLines(path)).toEqual([expect.objectContaining({ signature: 'sig-1', status: 'spent' })]);
+    });
+
+    it('compacts a log that has grown to twice its payments', async () => {
+        const path = join(dir, 'payments.jsonl');
+        const ledger = new FilePaymentLedger(path);
+        await ledger.claim(claimInput('sig-spent'));
+        await ledger.markSpent('sig-spent');
+
+        for (let i = 0; i < 600; i++) {
+            await ledger.claim(claimInput(`sig-${i}`));
+            await ledger.release(`sig-${i}`);
+        }
+
+        expect(readLines(path).length).toBeLessThan(300);
+        expect(await new FilePaymentLedger(path).claim(claimInput('sig-spent'))).toBe(false);
+    });
+
+    it('reads a ledger written as a JSON array', async () => {
+        const path = join(dir, 'payments.json');
+        const now = new Date().toISOString();
+        const record = { ...claimInput('sig'), status: 'spent', createdAt: now, updatedAt: now };
+        writeFileSync(path, JSON.stringify([record], null, 2));
+
+        const ledger = new FilePaymentLedger(path);
+
+        expect(await ledger.claim(claimInput('sig'))).toBe(false);
+        expect(readLines(path)).toEqual([record]);
+    });
+
+    it('skips a last line cut short by a crash', async () => {
+        const path = join(dir, 'payments.jsonl');
+        await new FilePaymentLedger(path).claim(claimInput('sig-1'));
+        appendFileSync(path, '{"signature":"sig-2","cha');
+
+        const ledger = new FilePaymentLedger(path);
+
+        expect(await ledger.get('sig-1')).toBeDefined();
+        expect(await ledger.claim(claimInput('sig-2'))).toBe(true);
+    });
+});
+
+function readLines(path: string): unknown[] {
+    return readFileSync(path, 'utf-8')
+        .split('\n')
+        .filter(line => line)
+        .map(line => JSON.parse(line));
+}
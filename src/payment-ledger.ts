@@ -0,0 +1,250 @@
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+import { PaymentLedger, PaymentRecord, PaymentStatus } from './types';
+import { writeFileAtomic } from './utils';
+
+type ClaimInput = Omit<PaymentRecord, 'status' | 'createdAt' | 'updatedAt'>;
+
+/** A line of the payment log: the payment's new state, or its release */
+type LogEntry = PaymentRecord | { signature: string; released: true };
+
+// The log is compacted once it holds this many lines more than twice the payments it records
+const COMPACTION_SLACK = 1000;
+
+/**
+ * In-memory payment ledger. Claims are lost on restart.
+ */
+export class MemoryPaymentLedger implements PaymentLedger {
+    protected records = new Map<string, PaymentRecord>();
+
+    async claim(record: ClaimInput): Promise<boolean> {
+        // Check-and-set runs synchronously, so concurrent claims cannot interleave
+        if (this.records.has(record.signature)) {
+            return false;
+        }
+
+        const now = new Date().toISOString();
+        this.records.set(record.signature, { ...record, status: 'pending', createdAt: now, updatedAt: now });
+        this.persist(record.signature);
+        return true;
+    }
+
+    async markSpent(signature: string): Promise<void> {
+        this.setStatus(signature, 'spent');
+    }
+
+    async markRefundable(signature: string, reason?: string): Promise<void> {
+        this.setStatus(signature, 'refundable', reason);
+    }
+
+    async markRefunded(signature: string, refundSignature: string): Promise<void> {
+        const record = this.records.get(signature);
+        if (record) {
+            record.refundSignature = refundSignature;
+        }
+        this.setStatus(signature, 'refunded', record?.reason);
+    }
+
+    async release(signature: string): Promise<void> {
+        const record = this.records.get(signature);
+        if (record?.status === 'pending') {
+            this.records.delete(signature);
+            this.persist(signature);
+        }
+    }
+
+    async get(signature: string): Promise<PaymentRecord | undefined> {
+        const record = this.records.get(signature);
+        return record ? { ...record } : undefined;
+    }
+
+    /**
+     * Hook for subclasses that write the change to a payment to durable storage
+     */
+    protected persist(_signature: string): void {
+        // Nothing to do in memory
+    }
+
+    private setStatus(signature: string, status: PaymentStatus, reason?: string): void {
+        const record = this.records.get(signature);
+        if (!record) {
+            return;
+        }
+
+        record.status = status;
+        record.reason = reason;
+        record.updatedAt = new Date().toISOString();
+        this.persist(signature);
+    }
+}
+
+/**
+ * Payment ledger backed by a JSON Lines file, kept in memory.
+ * Each change appends one line, like JsonlCallLedger; the log is compacted to a line
+ * per payment when loaded and whenever it has grown to twice that. For busy nodes,
+ * SqlitePaymentLedger keeps the ledger out of memory.
+ */
+export class FilePaymentLedger extends MemoryPaymentLedger {
+    private path: string;
+    private lines = 0;
+
+    constructor(path: string) {
+        super();
+        this.path = path;
+
+        if (existsSync(path)) {
+            try {
+                this.load(readFileSync(path, 'utf-8'));
+            } catch (error) {
+                throw new Error(`Failed to load payment ledger from ${path}: ${error}`);
+            }
+            this.compact();
+        }
+    }
+
+    protected persist(signature: string): void {
+        const entry: LogEntry = this.records.get(signature) ?? { signature, released: true };
+        appendFileSync(this.path, `${JSON.stringify(entry)}\n`);
+
+        if (++this.lines > 2 * this.records.size + COMPACTION_SLACK) {
+            this.compact();
+        }
+    }
+
+    private load(contents: string): void {
+        // Ledgers written before the log format hold a JSON array
+        if (contents.trimStart().startsWith('[')) {
+            for (const record of JSON.parse(contents) as PaymentRecord[]) {
+                this.records.set(record.signature, record);
+            }
+            return;
+        }
+
+        const lines = contents.split('\n').filter(line => line.trim());
+        lines.forEach((line, i) => {
+            let entry: LogEntry;
+            try {
+                entry = JSON.parse(line);
+            } catch (error) {
+                // A crash mid-append cuts the last line short; that change was never acknowledged
+                if (i === lines.length - 1) {
+                    return;
+                }
+                throw error;
+            }
+
+            if ('released' in entry) {
+                this.records.delete(entry.signature);
+            } else {
+                this.records.set(entry.signature, entry);
+            }
+        });
+    }
+
+    private compact(): void {
+        const records = Array.from(this.records.values());
+        writeFileAtomic(this.path, records.map(record => `${JSON.stringify(record)}\n`).join(''));
+        this.lines = records.length;
+    }
+}
+
+/**
+ * Payment ledger backed by SQLite.
+ * Requires the optional `better-sqlite3` dependency.
+ */
+export class SqlitePaymentLedger implements PaymentLedger {
+    private db: any;
+
+    constructor(path: string) {
+        let Database: any;
+        try {
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            Database = require('better-sqlite3');
+        } catch {
+            throw new Error('SqlitePaymentLedger requires the "better-sqlite3" package to be installed');
+        }
+
+        this.db = new Database(path);
+        this.db.pragma('journal_mode = WAL');
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS payments (
+                signature TEXT PRIMARY KEY,
+                chain TEXT NOT NULL,
+                api TEXT NOT NULL,
+                request_id TEXT NOT NULL,
+                amount REAL NOT NULL,
+                payer TEXT NOT NULL,
+                status TEXT NOT NULL,
+                reason TEXT,
+                refund_signature TEXT,
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL
+            )
+        `);
+    }
+
+    async claim(record: ClaimInput): Promise<boolean> {
+        const now = new Date().toISOString();
+        // The primary key makes the insert the atomic check
+        const result = this.db
+            .prepare(
+                `INSERT OR IGNORE INTO payments
+                    (signature, chain, api, request_id, amount, payer, status, created_at, updated_at)
+                 VALUES (?, ?, ?, ?, ?, ?, 'pending', ?, ?)`
+            )
+            .run(record.signature, record.chain, record.api, record.requestId, record.amount, record.from, now, now);
+
+        return result.changes === 1;
+    }
+
+    async markSpent(signature: string): Promise<void> {
+        this.setStatus(signature, 'spent');
+    }
+
+    async markRefundable(signature: string, reason?: string): Promise<void> {
+        this.setStatus(signature, 'refundable', reason);
+    }
+
+    async markRefunded(signature: string, refundSignature: string): Promise<void> {
+        this.db
+            .prepare(`UPDATE payments SET status = 'refunded', refund_signature = ?, updated_at = ? WHERE signature = ?`)
+            .run(refundSignature, new Date().toISOString(), signature);
+    }
+
+    async release(signature: string): Promise<void> {
+        this.db.prepare(`DELETE FROM payments WHERE signature = ? AND status = 'pending'`).run(signature);
+    }
+
+    async get(signature: string): Promise<PaymentRecord | undefined> {
+        const row = this.db.prepare('SELECT * FROM payments WHERE signature = ?').get(signature);
+        if (!row) {
+            return undefined;
+        }
+
+        return {
+            signature: row.signature,
+            chain: row.chain,
+            api: row.api,
+            requestId: row.request_id,
+            amount: row.amount,
+            from: row.payer,
+            status: row.status,
+            reason: row.reason ?? undefined,
+            refundSignature: row.refund_signature ?? undefined,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        };
+    }
+
+    /**
+     * Close the underlying database
+     */
+    close(): void {
+        this.db.close();
+    }
+
+    private setStatus(signature: string, status: PaymentStatus, reason?: string): void {
+        this.db
+            .prepare('UPDATE payments SET status = ?, reason = ?, updated_at = ? WHERE signature = ?')
+            .run(status, reason ?? null, new Date().toISOString(), signature);
+    }
+}
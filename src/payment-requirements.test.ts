@@ -0,0 +1,75 @@
+import { NonceIssuer, buildPaymentRequirements } from './payment-requirements';
+import { ChainVerifier, PaymentOffer } from './types';
+
+describe('NonceIssuer', () => {
+    it('accepts a nonce once, and only for the API it was issued for', () => {
+        const nonces = new NonceIssuer(60000);
+        const first = nonces.issue('test.echo').nonce;
+        const second = nonces.issue('test.echo').nonce;
+
+        expect(nonces.consume(first, 'test.echo')).toBe(true);
+        expect(nonces.consume(first, 'test.echo')).toBe(false);
+        expect(nonces.consume(second, 'test.other')).toBe(false);
+        expect(nonces.consume('unknown', 'test.echo')).toBe(false);
+    });
+
+    it('rejects expired nonces', () => {
+        const nonces = new NonceIssuer(-1);
+
+        expect(nonces.consume(nonces.issue('test.echo').nonce, 'test.echo')).toBe(false);
+    });
+
+    it('drops the oldest nonce once it holds maxNonces', () => {
+        const nonces = new NonceIssuer(60000, 2);
+        const [oldest, middle, newest] = [1, 2, 3].map(() => nonces.issue('test.echo').nonce);
+
+        expect(nonces.consume(oldest, 'test.echo')).toBe(false);
+        expect(nonces.consume(middle, 'test.echo')).toBe(true);
+        expect(nonces.consume(newest, 'test.echo')).toBe(true);
+    });
+});
+
+describe('buildPaymentRequirements', () => {
+    const offers: PaymentOffer[] = [];
+    const verifier: ChainVerifier = {
+        chain: 'solana',
+        requirements: offer => {
+            offers.push(offer);
+            return [];
+        },
+        verify: async () => {
+            throw new Error('Not used');
+        },
+    };
+
+    beforeEach(() => {
+        offers.length = 0;
+    });
+
+    const build = (nonces?: NonceIssuer) =>
+        buildPaymentRequirements({
+            api: 'test.echo',
+            price: 0.1,
+            verifiers: [verifier, verifier],
+            resource: 'http://localhost/call',
+            nonces,
+            timeoutSeconds: 300,
+        });
+
+    it('offers one nonce to every verifier when nonces are required', () => {
+        const nonces = new NonceIssuer(300000);
+
+        build(nonces);
+
+        expect(offers[0].nonce).toBeDefined();
+        expect(offers[1].nonce).toBe(offers[0].nonce);
+        expect(nonces.consume(offers[0].nonce!, 'test.echo')).toBe(true);
+    });
+
+    it('issues no nonce otherwise', () => {
+        build();
+
+        expect(offers[0].nonce).toBeUndefined();
+        expect(Date.parse(offers[0].expiresAt)).toBeGreaterThan(Date.now() + 299000);
+    });
+});
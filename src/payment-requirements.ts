@@ -0,0 +1,107 @@
+import { Chain } from '@x402apis/protocol';
+import { randomBytes } from 'crypto';
+import { ChainVerifier, PaymentOffer, PaymentRequirement } from './types';
+
+/** x402 protocol version spoken by this node */
+export const X402_VERSION = 1;
+
+/**
+ * Issues short-lived nonces that tie a payment to a challenge.
+ * At most `maxNonces` are kept; past that, the oldest outstanding nonce is dropped.
+ */
+export class NonceIssuer {
+    private nonces = new Map<string, { api: string; expiresAt: number }>();
+    private ttlMs: number;
+    private maxNonces: number;
+
+    constructor(ttlMs: number, maxNonces = 100000) {
+        this.ttlMs = ttlMs;
+        this.maxNonces = maxNonces;
+    }
+
+    /**
+     * Issue a new nonce for an API
+     */
+    issue(api: string): { nonce: string; expiresAt: number } {
+        this.prune();
+        if (this.nonces.size >= this.maxNonces) {
+            this.nonces.delete(this.nonces.keys().next().value!);
+        }
+
+        const nonce = randomBytes(16).toString('hex');
+        const expiresAt = Date.now() + this.ttlMs;
+        this.nonces.set(nonce, { api, expiresAt });
+        return { nonce, expiresAt };
+    }
+
+    /**
+     * Consume a nonce. Returns false if it is unknown, expired or for another API.
+     */
+    consume(nonce: string, api: string): boolean {
+        const entry = this.nonces.get(nonce);
+        this.nonces.delete(nonce);
+        return !!entry && entry.api === api && entry.expiresAt > Date.now();
+    }
+
+    /**
+     * Drop expired nonces. They all live for the same time, so they expire in insertion order.
+     */
+    private prune(): void {
+        const now = Date.now();
+        for (const [nonce, entry] of this.nonces) {
+            if (entry.expiresAt > now) {
+                break;
+            }
+            this.nonces.delete(nonce);
+        }
+    }
+}
+
+/**
+ * Build the payment requirements for calling an API on every enabled chain.
+ * A nonce is issued only when `nonces` is given, i.e. when payments must carry one.
+ */
+export function buildPaymentRequirements(options: {
+    api: string;
+    price: number;
+    verifiers: ChainVerifier[];
+    resource: string;
+    nonces?: NonceIssuer;
+    timeoutSeconds: number;
+}): PaymentRequirement[] {
+    const { api, price, verifiers, resource, nonces, timeoutSeconds } = options;
+
+    // One nonce per challenge, whichever chain and token the client picks
+    const { nonce, expiresAt } = nonces?.issue(api) ?? { expiresAt: Date.now() + timeoutSeconds * 1000 };
+    const offer: PaymentOffer = {
+        api,
+        price,
+        resource,
+        nonce,
+        expiresAt: new Date(expiresAt).toISOString(),
+        timeoutSeconds,
+    };
+
+    return verifiers.flatMap(verifier => verifier.requirements(offer));
+}
+
+/**
+ * Encode the X-Payment-Response header for a settled payment
+ */
+export function encodePaymentResponse(payment: { signature?: string; chain: Chain; from: string }): string {
+    return Buffer.from(
+        JSON.stringify({
+            success: true,
+            transaction: payment.signature,
+            network: payment.chain,
+            payer: payment.from,
+        })
+    ).toString('base64');
+}
+
+/**
+ * Convert a decimal token amount to its smallest unit
+ */
+export function toAtomicAmount(amount: number, decimals: number): string {
+    return BigInt(Math.round(amount * 10 ** decimals)).toString();
+}
@@ -0,0 +1,164 @@
+type Labels = Record<string, string>;
+
+/** Default latency buckets in seconds */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/**
+ * Counter with labels
+ */
+class Counter {
+    private name: string;
+    private help: string;
+    private values = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(name: string, help: string) {
+        this.name = name;
+        this.help = help;
+    }
+
+    inc(labels: Labels, value = 1): void {
+        const key = labelKey(labels);
+        const series = this.values.get(key) ?? { labels, value: 0 };
+        series.value += value;
+        this.values.set(key, series);
+    }
+
+    render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+        for (const { labels, value } of this.values.values()) {
+            lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * Histogram with labels and cumulative buckets
+ */
+class Histogram {
+    private name: string;
+    private help: string;
+    private buckets: number[];
+    private values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+    constructor(name: string, help: string, buckets: number[]) {
+        this.name = name;
+        this.help = help;
+        this.buckets = [...buckets].sort((a, b) => a - b);
+    }
+
+    observe(labels: Labels, value: number): void {
+        const key = labelKey(labels);
+        const series = this.values.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+
+        this.buckets.forEach((bound, i) => {
+            if (value <= bound) {
+                series.counts[i]++;
+            }
+        });
+        series.sum += value;
+        series.count++;
+        this.values.set(key, series);
+    }
+
+    render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+        for (const { labels, counts, sum, count } of this.values.values()) {
+            this.buckets.forEach((bound, i) => {
+                lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * Provider metrics in the Prometheus text exposition format
+ */
+export class PrometheusMetrics {
+    private calls: Counter;
+    private callDuration: Histogram;
+    private verifications: Counter;
+    private earnings: Counter;
+    private rpcDuration: Histogram;
+    private cacheLookups: Counter;
+
+    constructor(buckets: number[] = DEFAULT_BUCKETS) {
+        this.calls = new Counter('x402_calls_total', 'Calls to /call by API and HTTP status');
+        this.callDuration = new Histogram('x402_call_duration_seconds', 'Duration of calls to /call by API', buckets);
+        this.verifications = new Counter(
+            'x402_payment_verifications_total',
+            'Payment verifications by chain and outcome (verified or rejection reason)'
+        );
+        this.earnings = new Counter('x402_earnings_usdc_total', 'USDC charged by chain and mint');
+        this.rpcDuration = new Histogram(
+            'x402_rpc_duration_seconds',
+            'Duration of chain RPC calls by chain, method and outcome',
+            buckets
+        );
+        this.cacheLookups = new Counter('x402_cache_lookups_total', 'Response cache lookups by API and result');
+    }
+
+    /**
+     * Record a finished call
+     */
+    recordCall(api: string, status: number, seconds: number): void {
+        this.calls.inc({ api, status: String(status) });
+        this.callDuration.observe({ api }, seconds);
+    }
+
+    /**
+     * Record a payment verification outcome
+     */
+    recordVerification(chain: string, outcome: string): void {
+        this.verifications.inc({ chain, outcome });
+    }
+
+    /**
+     * Record an amount charged
+     */
+    recordEarnings(chain: string, mint: string, amount: number): void {
+        if (amount > 0) {
+            this.earnings.inc({ chain, mint }, amount);
+        }
+    }
+
+    /**
+     * Record a chain RPC call
+     */
+    recordRPC(chain: string, method: string, seconds: number, ok: boolean): void {
+        this.rpcDuration.observe({ chain, method, outcome: ok ? 'ok' : 'error' }, seconds);
+    }
+
+    /**
+     * Record a response cache lookup
+     */
+    recordCacheLookup(api: string, hit: boolean): void {
+        this.cacheLookups.inc({ api, result: hit ? 'hit' : 'miss' });
+    }
+
+    /**
+     * Render every metric
+     */
+    render(): string {
+        return (
+            [this.calls, this.callDuration, this.verifications, this.earnings, this.rpcDuration, this.cacheLookups]
+                .flatMap(metric => metric.render())
+                .join('\n') + '\n'
+        );
+    }
+}
+
+function labelKey(labels: Labels): string {
+    return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels).map(
+        ([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`
+    );
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
@@ -0,0 +1,136 @@
+import { IncomingHttpHeaders, Server, createServer } from 'http';
+import { AddressInfo } from 'net';
+import { UpstreamError } from './errors';
+import { silentLogger } from './logger';
+import { createProxyHandler, mapUpstreamStatus } from './proxy';
+import { RequestContext } from './types';
+
+type UpstreamRequest = { method?: string; url?: string; headers: IncomingHttpHeaders; body: string };
+
+const context = (): RequestContext => ({
+    payment: { amount: 0.1, from: 'payer', chain: 'solana' },
+    timestamp: new Date(),
+    requestId: 'req',
+    api: 'test.proxy',
+    signal: new AbortController().signal,
+    logger: silentLogger,
+});
+
+describe('createProxyHandler', () => {
+    let server: Server;
+    let upstream: string;
+    let requests: UpstreamRequest[];
+    let reply: { status: number; body: string };
+
+    beforeAll(async () => {
+        server = createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => (body += chunk));
+            req.on('end', () => {
+                requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+                res.statusCode = reply.status;
+                res.end(reply.body);
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        upstream = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(done => {
+        server.close(done);
+    });
+
+    beforeEach(() => {
+        requests = [];
+        reply = { status: 200, body: JSON.stringify({ data: { temperature: 21 } }) };
+        process.env.TEST_PROXY_KEY = 'proxy-secret-key';
+    });
+
+    afterEach(() => {
+        delete process.env.TEST_PROXY_KEY;
+    });
+
+    it('fills URL placeholders and sends the other params as the query string', async () => {
+        const handler = createProxyHandler('test.proxy', {
+            upstream: `${upstream}/v1/{city}/current`,
+            method: 'GET',
+            secretsFromEnv: { 'X-Api-Key': 'TEST_PROXY_KEY' },
+            responsePath: 'data.temperature',
+        });
+
+        const result = await handler({ city: 'New York', units: 'metric' }, context());
+
+        expect(result).toBe(21);
+        expect(requests[0]).toMatchObject({ method: 'GET', url: '/v1/New%20York/current?units=metric' });
+        expect(requests[0].headers['x-api-key']).toBe('proxy-secret-key');
+    });
+
+    it('maps params into the request body', async () => {
+        const handler = createProxyHandler('test.proxy', {
+            upstream: `${upstream}/v1/embed`,
+            paramMapping: { text: 'input.text' },
+        });
+
+        await handler({ text: 'hello', model: 'small' }, context());
+
+        expect(JSON.parse(requests[0].body)).toEqual({ input: { text: 'hello' }, model: 'small' });
+        expect(requests[0].headers['content-type']).toBe('application/json');
+    });
+
+    it.each(['.', '..'])('rejects %j as a URL placeholder value without calling the upstream', async city => {
+        const handler = createProxyHandler('test.proxy', { upstream: `${upstream}/v1/{city}/current`, method: 'GET' });
+
+        const call = handler({ city }, context());
+
+        await expect(call).rejects.toThrow('Invalid param for the upstream URL: city');
+        await expect(call).rejects.toMatchObject({ statusCode: 400 });
+        expect(requests).toHaveLength(0);
+    });
+
+    it('keeps dots inside a placeholder value in their segment', async () => {
+        const handler = createProxyHandler('test.proxy', { upstream: `${upstream}/v1/{city}/current`, method: 'GET' });
+
+        await handler({ city: '../admin' }, context());
+
+        expect(requests[0].url).toBe('/v1/..%2Fadmin/current');
+    });
+
+    it('redacts secrets from upstream errors', async () => {
+        reply = { status: 401, body: 'Invalid key: Bearer proxy-secret-key' };
+        const handler = createProxyHandler('test.proxy', {
+            upstream: `${upstream}/v1/chat`,
+            secretsFromEnv: { Authorization: 'Bearer ${TEST_PROXY_KEY}' },
+        });
+
+        const error = await handler({}, context()).catch((caught: UpstreamError) => caught);
+
+        expect(error).toBeInstanceOf(UpstreamError);
+        expect((error as UpstreamError).message).toBe('Upstream responded with 401: Invalid key: Bearer [REDACTED]');
+        expect(error).toMatchObject({ statusCode: 502, upstreamStatus: 401 });
+    });
+
+    it('fails when the API is added if a secret is missing', () => {
+        expect(() =>
+            createProxyHandler('test.proxy', { upstream, secretsFromEnv: { 'X-Api-Key': 'TEST_PROXY_UNSET' } })
+        ).toThrow('Environment variable TEST_PROXY_UNSET is not set (needed by test.proxy)');
+    });
+});
+
+describe('mapUpstreamStatus', () => {
+    it.each([
+        [400, 400],
+        [404, 400],
+        [422, 400],
+        [401, 502],
+        [403, 502],
+        [407, 502],
+        [408, 504],
+        [504, 504],
+        [429, 503],
+        [503, 503],
+        [500, 502],
+        [502, 502],
+    ])('maps %i to %i', (upstream, node) => {
+        expect(mapUpstreamStatus(upstream)).toBe(node);
+    });
+});
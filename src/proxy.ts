@@ -0,0 +1,198 @@
+import fetch, { Response as FetchResponse } from 'node-fetch';
+import { ProviderNodeError, UpstreamError } from './errors';
+import { APIHandler, ProxyAPIConfig } from './types';
+
+const REDACTED = '[REDACTED]';
+
+// Upstream error bodies are cut to this many characters in error messages
+const MAX_ERROR_BODY_LENGTH = 500;
+
+/**
+ * Build a handler that forwards params to an upstream HTTP endpoint.
+ *
+ * Secrets are read from the environment here, so a missing variable fails when the
+ * API is added rather than on the first paid call. The call's signal cancels the
+ * upstream request when the API's timeout fires or the client disconnects.
+ */
+export function createProxyHandler(name: string, config: ProxyAPIConfig): APIHandler {
+    const { upstream, method = 'POST', headers = {}, secretsFromEnv = {}, paramMapping, responsePath, stream } = config;
+
+    const secrets: string[] = [];
+    const secretHeaders: Record<string, string> = {};
+    for (const [header, source] of Object.entries(secretsFromEnv)) {
+        secretHeaders[header] = readSecret(name, source, secrets);
+    }
+    // Longest first, so a secret containing another is redacted whole
+    secrets.sort((a, b) => b.length - a.length);
+    const redact = (text: string) => secrets.reduce((redacted, secret) => redacted.split(secret).join(REDACTED), text);
+
+    return async (params, context) => {
+        const { url, body } = buildRequest(upstream, method, params, paramMapping);
+
+        let response: FetchResponse;
+        try {
+            response = await fetch(url, {
+                method,
+                headers: {
+                    ...(body !== undefined && { 'Content-Type': 'application/json' }),
+                    ...headers,
+                    ...secretHeaders,
+                },
+                body: body !== undefined ? JSON.stringify(body) : undefined,
+                signal: context.signal,
+            });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new UpstreamError(redact(`Upstream request failed: ${message}`));
+        }
+
+        if (!response.ok) {
+            const text = await response.text().catch(() => '');
+            const detail = text ? `: ${text.slice(0, MAX_ERROR_BODY_LENGTH)}` : '';
+            throw new UpstreamError(
+                redact(`Upstream responded with ${response.status}${detail}`),
+                mapUpstreamStatus(response.status),
+                response.status
+            );
+        }
+
+        // Pass the upstream body through; SSE is re-framed so the node can add its own events
+        if (stream) {
+            return stream === 'sse' ? readEvents(response.body) : response.body;
+        }
+
+        const text = await response.text();
+        let result: unknown = text;
+        try {
+            result = JSON.parse(text);
+        } catch {
+            // Non-JSON bodies are returned as text
+        }
+
+        return responsePath ? getPath(result, responsePath) : result;
+    };
+}
+
+/**
+ * Status the node responds with for an upstream error status
+ */
+export function mapUpstreamStatus(status: number): number {
+    if (status === 408 || status === 504) {
+        return 504;
+    }
+    if (status === 429 || status === 503) {
+        return 503;
+    }
+    // Rejected credentials are the provider's problem, not the caller's
+    if (status === 401 || status === 403 || status === 407) {
+        return 502;
+    }
+    if (status >= 400 && status < 500) {
+        return 400;
+    }
+    return 502;
+}
+
+/**
+ * Resolve a secret header value from an env var name or a `${VAR}` template
+ */
+function readSecret(api: string, source: string, secrets: string[]): string {
+    const read = (variable: string): string => {
+        const value = process.env[variable];
+        if (!value) {
+            throw new ProviderNodeError(`Environment variable ${variable} is not set (needed by ${api})`);
+        }
+        secrets.push(value);
+        return value;
+    };
+
+    return source.includes('${') ? source.replace(/\$\{(\w+)\}/g, (_, variable) => read(variable)) : read(source);
+}
+
+/**
+ * Fill URL placeholders and map the remaining params into a body or query string
+ */
+function buildRequest(
+    upstream: string,
+    method: NonNullable<ProxyAPIConfig['method']>,
+    params: Record<string, unknown>,
+    paramMapping?: Record<string, string>
+): { url: string; body?: Record<string, unknown> } {
+    const remaining = { ...params };
+    const url = upstream.replace(/\{(\w+)\}/g, (_, key) => {
+        if (remaining[key] === undefined) {
+            throw new UpstreamError(`Missing param for the upstream URL: ${key}`, 400);
+        }
+        const value = String(remaining[key]);
+        // Slashes are encoded, but a whole `.` or `..` segment would still move the path
+        if (value === '.' || value === '..') {
+            throw new UpstreamError(`Invalid param for the upstream URL: ${key}`, 400);
+        }
+        delete remaining[key];
+        return encodeURIComponent(value);
+    });
+
+    const mapped: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(remaining)) {
+        setPath(mapped, paramMapping?.[key] ?? key, value);
+    }
+
+    if (method === 'GET' || method === 'DELETE') {
+        const target = new URL(url);
+        for (const [key, value] of Object.entries(mapped)) {
+            target.searchParams.set(key, typeof value === 'string' ? value : JSON.stringify(value));
+        }
+        return { url: target.toString() };
+    }
+
+    return { url, body: mapped };
+}
+
+/**
+ * Yield the data of each Server-Sent Event in a stream
+ */
+async function* readEvents(body: NodeJS.ReadableStream): AsyncIterable<string> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const chunk of body) {
+        buffer = (buffer + decoder.decode(chunk as Buffer, { stream: true })).replace(/\r\n/g, '\n');
+
+        let end: number;
+        while ((end = buffer.indexOf('\n\n')) !== -1) {
+            const data = parseEvent(buffer.slice(0, end));
+            buffer = buffer.slice(end + 2);
+            if (data !== undefined) {
+                yield data;
+            }
+        }
+    }
+
+    const data = parseEvent(buffer + decoder.decode());
+    if (data !== undefined) {
+        yield data;
+    }
+}
+
+function parseEvent(block: string): string | undefined {
+    const lines = block
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).replace(/^ /, ''));
+    return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+function getPath(value: unknown, path: string): unknown {
+    return path.split('.').reduce<any>((current, key) => current?.[key], value);
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+    const keys = path.split('.');
+    let current: any = target;
+
+    keys.slice(0, -1).forEach((key, i) => {
+        current[key] ??= /^\d+$/.test(keys[i + 1]) ? [] : {};
+        current = current[key];
+    });
+    current[keys[keys.length - 1]] = value;
+}
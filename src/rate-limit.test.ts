@@ -0,0 +1,59 @@
+import { MemoryRateLimitStore, checkRateLimit } from './rate-limit';
+
+describe('MemoryRateLimitStore', () => {
+    beforeEach(() => {
+        jest.useFakeTimers({ now: 1_000_000 });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('refuses a call once the bucket is empty and refills over time', async () => {
+        const store = new MemoryRateLimitStore();
+
+        expect(await store.take('api:test.echo', 2, 2 / 1000)).toMatchObject({ allowed: true, remaining: 1 });
+        expect(await store.take('api:test.echo', 2, 2 / 1000)).toMatchObject({ allowed: true, remaining: 0 });
+        expect(await store.take('api:test.echo', 2, 2 / 1000)).toEqual({
+            allowed: false,
+            remaining: 0,
+            retryAfterMs: 500,
+        });
+
+        jest.advanceTimersByTime(500);
+        expect((await store.take('api:test.echo', 2, 2 / 1000)).allowed).toBe(true);
+    });
+
+    it('drops buckets once they have refilled', async () => {
+        const store = new MemoryRateLimitStore(1000);
+        await store.take('payer:test.echo:a', 10, 10 / 60000);
+        await store.take('payer:test.echo:b', 10, 10 / 1000);
+
+        // b is full again after 100ms, a only after 6s
+        jest.advanceTimersByTime(1000);
+        await store.take('payer:test.echo:c', 10, 10 / 60000);
+
+        expect(Array.from(store['buckets'].keys())).toEqual(['payer:test.echo:a', 'payer:test.echo:c']);
+    });
+
+    it('keeps the count of a bucket that is still refilling', async () => {
+        const store = new MemoryRateLimitStore(1);
+        await store.take('api:test.echo', 1, 1 / 60000);
+
+        jest.advanceTimersByTime(1000);
+
+        expect((await store.take('api:test.echo', 1, 1 / 60000)).allowed).toBe(false);
+    });
+});
+
+describe('checkRateLimit', () => {
+    it('checks the payer bucket before the shared one', async () => {
+        const store = new MemoryRateLimitStore();
+        const rateLimit = { requests: 2, perPayer: 1 };
+
+        expect((await checkRateLimit(store, 'test.echo', 'a', rateLimit)).allowed).toBe(true);
+        expect((await checkRateLimit(store, 'test.echo', 'a', rateLimit)).allowed).toBe(false);
+        expect(await checkRateLimit(store, 'test.echo', 'b', rateLimit)).toMatchObject({ allowed: true, remaining: 0 });
+        expect((await checkRateLimit(store, 'test.echo', 'c', rateLimit)).allowed).toBe(false);
+    });
+});
@@ -0,0 +1,101 @@
+import { RateLimitConfig, RateLimitResult, RateLimitStore } from './types';
+
+const DEFAULT_WINDOW_MS = 60000;
+
+/**
+ * In-memory token-bucket store. Limits are per process.
+ *
+ * A full bucket is no different from a missing one, so buckets that have refilled
+ * are dropped by a sweep run from `take` at most once per `sweepIntervalMs`.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+    private buckets = new Map<string, { tokens: number; updatedAt: number; fullAt: number }>();
+    private sweepIntervalMs: number;
+    private nextSweepAt = 0;
+
+    constructor(sweepIntervalMs = DEFAULT_WINDOW_MS) {
+        this.sweepIntervalMs = sweepIntervalMs;
+    }
+
+    async take(key: string, capacity: number, refillPerMs: number): Promise<RateLimitResult> {
+        const now = Date.now();
+        if (now >= this.nextSweepAt) {
+            this.sweep(now);
+        }
+
+        const bucket = this.buckets.get(key) ?? { tokens: capacity, updatedAt: now, fullAt: now };
+
+        bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+        bucket.updatedAt = now;
+        this.buckets.set(key, bucket);
+
+        const allowed = bucket.tokens >= 1;
+        if (allowed) {
+            bucket.tokens -= 1;
+        }
+        bucket.fullAt = now + (capacity - bucket.tokens) / refillPerMs;
+
+        if (allowed) {
+            return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterMs: 0 };
+        }
+
+        return {
+            allowed: false,
+            remaining: 0,
+            retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs),
+        };
+    }
+
+    private sweep(now: number): void {
+        for (const [key, bucket] of this.buckets) {
+            if (bucket.fullAt <= now) {
+                this.buckets.delete(key);
+            }
+        }
+        this.nextSweepAt = now + this.sweepIntervalMs;
+    }
+}
+
+/**
+ * Normalize the `APIConfig.rateLimit` shorthand
+ */
+export function normalizeRateLimit(rateLimit?: number | RateLimitConfig): RateLimitConfig | undefined {
+    if (rateLimit === undefined) {
+        return undefined;
+    }
+
+    return typeof rateLimit === 'number' ? { requests: rateLimit } : rateLimit;
+}
+
+/**
+ * Check the per-API and per-payer buckets for a call.
+ * Resolves to the result of the first bucket that rejected, or an allowed result.
+ */
+export async function checkRateLimit(
+    store: RateLimitStore,
+    api: string,
+    payer: string,
+    rateLimit: RateLimitConfig
+): Promise<RateLimitResult> {
+    const windowMs = rateLimit.windowMs ?? DEFAULT_WINDOW_MS;
+    const buckets: Array<[string, number]> = [];
+
+    // Payer first, so a single noisy payer doesn't drain the shared bucket
+    if (rateLimit.perPayer) {
+        buckets.push([`payer:${api}:${payer}`, rateLimit.perPayer]);
+    }
+    if (rateLimit.requests) {
+        buckets.push([`api:${api}`, rateLimit.requests]);
+    }
+
+    let result: RateLimitResult = { allowed: true, remaining: Infinity, retryAfterMs: 0 };
+    for (const [key, capacity] of buckets) {
+        const bucket = await store.take(key, capacity, capacity / windowMs);
+        if (!bucket.allowed) {
+            return bucket;
+        }
+        result = { ...result, remaining: Math.min(result.remaining, bucket.remaining) };
+    }
+
+    return result;
+}
@@ -0,0 +1,224 @@
+import { Connection, Keypair, Transaction } from '@solana/web3.js';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { silentLogger } from './logger';
+import { MemoryPaymentLedger } from './payment-ledger';
+import { RefundQueue } from './refunds';
+import { USDC_MINT } from './solana-verifier';
+import { RefundPolicy, RefundRecord } from './types';
+import { encodeBase58 } from './utils';
+import { KeypairSigner } from './wallet';
+
+const MINTS = [{ mint: USDC_MINT.toBase58(), decimals: 6 }];
+
+/**
+ * The RPC calls the refund queue makes, with sent transactions recorded
+ */
+class FakeConnection {
+    sent: Transaction[] = [];
+    blockHeight = 100;
+    /** Error thrown by sendRawTransaction */
+    sendError?: Error;
+    /** Status returned for a previously sent signature */
+    status: { err: unknown; confirmationStatus?: string } | null = null;
+
+    async getLatestBlockhash() {
+        return { blockhash: encodeBase58(Keypair.generate().publicKey.toBytes()), lastValidBlockHeight: 250 };
+    }
+
+    async sendRawTransaction(raw: Buffer) {
+        if (this.sendError) {
+            throw this.sendError;
+        }
+        const tx = Transaction.from(raw);
+        this.sent.push(tx);
+        return encodeBase58(tx.signature!);
+    }
+
+    async confirmTransaction() {
+        return { context: { slot: 1 }, value: { err: null } };
+    }
+
+    async getSignatureStatus() {
+        return { context: { slot: 1 }, value: this.status };
+    }
+
+    async getBlockHeight() {
+        return this.blockHeight;
+    }
+}
+
+describe('RefundQueue', () => {
+    const wallet = new KeypairSigner(Keypair.generate());
+    const payer = Keypair.generate().publicKey.toBase58();
+    let connection: FakeConnection;
+    let ledger: MemoryPaymentLedger;
+    let queues: RefundQueue[];
+
+    const createQueue = (policy: RefundPolicy = {}) => {
+        const queue = new RefundQueue(
+            wallet,
+            connection as unknown as Connection,
+            ledger,
+            MINTS,
+            policy,
+            silentLogger
+        );
+        queues.push(queue);
+        return queue;
+    };
+
+    const refundable = async (signature: string, amount = 0.1) => {
+        await ledger.claim({ signature, chain: 'solana', api: 'test.echo', requestId: 'req', amount, from: payer });
+        await ledger.markRefundable(signature, 'Handler failed');
+        return {
+            paymentSignature: signature,
+            chain: 'solana' as const,
+            asset: USDC_MINT.toBase58(),
+            to: payer,
+            amount,
+            api: 'test.echo',
+            requestId: 'req',
+            reason: 'Handler failed',
+        };
+    };
+
+    beforeEach(() => {
+        connection = new FakeConnection();
+        ledger = new MemoryPaymentLedger();
+        queues = [];
+    });
+
+    afterEach(() => {
+        queues.forEach(queue => queue.stop());
+    });
+
+    it('sends the payment back less the fee and marks it refunded', async () => {
+        const queue = createQueue({ fee: 0.01 });
+
+        const { id } = queue.enqueue(await refundable('payment-1'));
+        const refund = await queue.waitFor(id, 1000);
+
+        expect(refund).toMatchObject({ status: 'confirmed', amount: 0.09, fee: 0.01 });
+        expect(connection.sent).toHaveLength(1);
+        expect(connection.sent[0].verifySignatures()).toBe(true);
+        expect(await ledger.get('payment-1')).toMatchObject({
+            status: 'refunded',
+            refundSignature: refund!.signature,
+        });
+    });
+
+    it('refunds a payment only once', async () => {
+        const queue = createQueue();
+        const input = await refundable('payment-1');
+
+        const first = queue.enqueue(input);
+        const second = queue.enqueue(input);
+        await queue.waitFor(first.id, 1000);
+
+        expect(second.id).toBe(first.id);
+        expect(connection.sent).toHaveLength(1);
+    });
+
+    it('fails refunds the fee would swallow without sending anything', async () => {
+        const queue = createQueue({ fee: 0.5 });
+
+        const refund = queue.enqueue(await refundable('payment-1', 0.1));
+
+        expect(refund).toMatchObject({ status: 'failed', amount: 0 });
+        expect(connection.sent).toHaveLength(0);
+    });
+
+    it('retries failed sends once they can no longer land, and gives up after the last attempt', async () => {
+        connection.sendError = new Error('RPC unavailable');
+        // Past the blockhash's last valid height, so a retry never risks a second refund
+        connection.blockHeight = 300;
+        const queue = createQueue({ maxAttempts: 2, retryDelay: 1 });
+
+        const { id } = queue.enqueue(await refundable('payment-1'));
+        queue.start(5);
+        const refund = await queue.waitFor(id, 1000);
+
+        expect(refund).toMatchObject({ status: 'failed', attempts: 2, lastError: 'RPC unavailable' });
+        expect((await ledger.get('payment-1'))?.status).toBe('refundable');
+    });
+
+    it('rejects refunds on chains it cannot send on', async () => {
+        const queue = createQueue({ maxAttempts: 1 });
+
+        const { id } = queue.enqueue({ ...(await refundable('payment-1')), chain: 'base' });
+
+        expect(await queue.waitFor(id, 1000)).toMatchObject({
+            status: 'failed',
+            lastError: 'Refunds are not supported on base',
+        });
+    });
+
+    describe('after a restart', () => {
+        let dir: string;
+        let path: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), 'x402-refunds-'));
+            path = join(dir, 'refunds.json');
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        const writeSentRefund = async () => {
+            const now = new Date().toISOString();
+            const record: RefundRecord = {
+                ...(await refundable('payment-1')),
+                id: 'refund-1',
+                fee: 0,
+                status: 'sent',
+                attempts: 0,
+                signature: 'refund-signature',
+                lastValidBlockHeight: 200,
+                createdAt: now,
+                updatedAt: now,
+            };
+            writeFileSync(path, JSON.stringify([record]));
+        };
+
+        it('does not resend a refund that may still land', async () => {
+            await writeSentRefund();
+            const queue = createQueue({ path });
+
+            queue.start(5);
+            await new Promise(resolve => setTimeout(resolve, 50));
+
+            expect(connection.sent).toHaveLength(0);
+            expect(queue.get('refund-1')?.status).toBe('sent');
+        });
+
+        it('confirms a refund that landed while it was down', async () => {
+            await writeSentRefund();
+            connection.status = { err: null, confirmationStatus: 'confirmed' };
+            const queue = createQueue({ path });
+
+            queue.start(5);
+            const refund = await queue.waitFor('refund-1', 1000);
+
+            expect(refund?.status).toBe('confirmed');
+            expect(connection.sent).toHaveLength(0);
+            expect(JSON.parse(readFileSync(path, 'utf-8'))[0].status).toBe('confirmed');
+        });
+
+        it('sends a new transaction once the old one has expired', async () => {
+            await writeSentRefund();
+            connection.blockHeight = 201;
+            const queue = createQueue({ path });
+
+            queue.start(5);
+            const refund = await queue.waitFor('refund-1', 1000);
+
+            expect(refund?.status).toBe('confirmed');
+            expect(refund?.signature).not.toBe('refund-signature');
+            expect(connection.sent).toHaveLength(1);
+        });
+    });
+});
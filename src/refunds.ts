@@ -0,0 +1,317 @@
+import { Connection, PublicKey, Transaction } from '@solana/web3.js';
+import {
+    createAssociatedTokenAccountIdempotentInstruction,
+    createTransferCheckedInstruction,
+    getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { existsSync, readFileSync } from 'fs';
+import { roundAmount } from './balances';
+import { defaultLogger } from './logger';
+import { toAtomicAmount } from './payment-requirements';
+import { closeConnection, getTokenProgramId } from './solana-verifier';
+import { AcceptedMint, Logger, PaymentLedger, RefundPolicy, RefundRecord, RefundStatus, Signer } from './types';
+import { encodeBase58, generateRequestId, writeFileAtomic } from './utils';
+
+type RefundInput = Pick<RefundRecord, 'paymentSignature' | 'chain' | 'asset' | 'to' | 'api' | 'requestId' | 'reason'> & {
+    /** Amount paid */
+    amount: number;
+};
+
+/**
+ * Durable queue of refunds for failed paid calls.
+ *
+ * Refunds are SPL `transferChecked`s from the provider wallet back to the payer,
+ * retried with exponential backoff until confirmed or out of attempts. A sent
+ * transaction is only replaced once its blockhash has expired, so a slow
+ * confirmation never turns into a double refund.
+ */
+export class RefundQueue {
+    private wallet: Signer;
+    private connection: Connection;
+    private ledger: PaymentLedger;
+    private mints: AcceptedMint[];
+    private path?: string;
+    private records = new Map<string, RefundRecord>();
+    private waiters = new Map<string, Array<(record: RefundRecord) => void>>();
+    private timer?: NodeJS.Timeout;
+    private processing = false;
+    private fee: number;
+    private maxAttempts: number;
+    private retryDelay: number;
+    private logger: Logger;
+
+    constructor(
+        wallet: Signer,
+        connection: Connection,
+        ledger: PaymentLedger,
+        mints: AcceptedMint[],
+        policy: RefundPolicy,
+        logger: Logger = defaultLogger
+    ) {
+        this.wallet = wallet;
+        this.connection = connection;
+        this.ledger = ledger;
+        this.mints = mints;
+        this.path = policy.path;
+        this.fee = policy.fee ?? 0;
+        this.maxAttempts = policy.maxAttempts ?? 5;
+        this.retryDelay = policy.retryDelay ?? 5000;
+        this.logger = logger;
+
+        if (policy.path && existsSync(policy.path)) {
+            try {
+                const records: RefundRecord[] = JSON.parse(readFileSync(policy.path, 'utf-8'));
+                for (const record of records) {
+                    this.records.set(record.id, record);
+                }
+            } catch (error) {
+                throw new Error(`Failed to load refund queue from ${policy.path}: ${error}`);
+            }
+        }
+    }
+
+    /**
+     * Queue a refund and start sending it. A payment is only ever refunded once.
+     */
+    enqueue(input: RefundInput): RefundRecord {
+        const existing = Array.from(this.records.values()).find(r => r.paymentSignature === input.paymentSignature);
+        if (existing) {
+            return { ...existing };
+        }
+
+        const fee = Math.min(this.fee, input.amount);
+        const now = new Date().toISOString();
+        const record: RefundRecord = {
+            ...input,
+            id: generateRequestId(),
+            amount: roundAmount(input.amount - fee),
+            fee,
+            status: 'pending',
+            attempts: 0,
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        if (record.amount <= 0) {
+            record.status = 'failed';
+            record.lastError = 'Nothing left to refund after the fee';
+        }
+
+        this.records.set(record.id, record);
+        this.persist();
+        void this.process();
+
+        return { ...record };
+    }
+
+    /**
+     * Wait until a refund is confirmed or failed, or the timeout passes
+     */
+    waitFor(id: string, timeoutMs: number): Promise<RefundRecord | undefined> {
+        const record = this.records.get(id);
+        if (!record || isSettled(record.status)) {
+            return Promise.resolve(record && { ...record });
+        }
+
+        return new Promise(resolve => {
+            const timer = setTimeout(() => resolve(this.get(id)), timeoutMs);
+            const waiters = this.waiters.get(id) ?? [];
+            waiters.push(settled => {
+                clearTimeout(timer);
+                resolve(settled);
+            });
+            this.waiters.set(id, waiters);
+        });
+    }
+
+    /**
+     * Look up a refund
+     */
+    get(id: string): RefundRecord | undefined {
+        const record = this.records.get(id);
+        return record && { ...record };
+    }
+
+    /**
+     * List refunds, optionally by status
+     */
+    list(status?: RefundStatus): RefundRecord[] {
+        return Array.from(this.records.values())
+            .filter(record => !status || record.status === status)
+            .map(record => ({ ...record }));
+    }
+
+    /**
+     * Start retrying outstanding refunds in the background
+     */
+    start(intervalMs = 5000): void {
+        this.timer = setInterval(() => void this.process(), intervalMs);
+        void this.process();
+    }
+
+    /**
+     * Stop background retries and close the RPC connection
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+        closeConnection(this.connection);
+    }
+
+    private async process(): Promise<void> {
+        if (this.processing) {
+            return;
+        }
+        this.processing = true;
+
+        try {
+            const now = Date.now();
+            for (const record of this.records.values()) {
+                if (isSettled(record.status) || (record.nextAttemptAt && Date.parse(record.nextAttemptAt) > now)) {
+                    continue;
+                }
+
+                try {
+                    await this.attempt(record);
+                } catch (error) {
+                    record.attempts++;
+                    record.lastError = error instanceof Error ? error.message : String(error);
+
+                    if (record.attempts >= this.maxAttempts) {
+                        record.status = 'failed';
+                        this.logger.error('Refund failed', {
+                            refundId: record.id,
+                            requestId: record.requestId,
+                            attempts: record.attempts,
+                            error: record.lastError,
+                        });
+                    } else {
+                        const delay = this.retryDelay * 2 ** (record.attempts - 1);
+                        record.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+                    }
+                    this.update(record);
+                }
+            }
+        } finally {
+            this.processing = false;
+        }
+    }
+
+    private async attempt(record: RefundRecord): Promise<void> {
+        if (record.chain !== 'solana') {
+            throw new Error(`Refunds are not supported on ${record.chain}`);
+        }
+
+        // A previously sent transaction may still land; don't send another until it can't
+        if (record.signature) {
+            const { value } = await this.connection.getSignatureStatus(record.signature, {
+                searchTransactionHistory: true,
+            });
+
+            if (value && !value.err && value.confirmationStatus && value.confirmationStatus !== 'processed') {
+                return this.confirm(record);
+            }
+
+            if (!value?.err) {
+                const height = await this.connection.getBlockHeight();
+                if (record.lastValidBlockHeight !== undefined && height <= record.lastValidBlockHeight) {
+                    return;
+                }
+            }
+
+            record.signature = undefined;
+            record.lastValidBlockHeight = undefined;
+        }
+
+        const accepted = this.mints.find(m => m.mint === record.asset);
+        if (!accepted) {
+            throw new Error(`Cannot refund unknown mint ${record.asset}`);
+        }
+
+        const mint = new PublicKey(accepted.mint);
+        const programId = getTokenProgramId(accepted);
+        const payer = new PublicKey(record.to);
+        const source = getAssociatedTokenAddressSync(mint, this.wallet.publicKey, false, programId);
+        const destination = getAssociatedTokenAddressSync(mint, payer, true, programId);
+
+        const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+        const tx = new Transaction({ feePayer: this.wallet.publicKey, blockhash, lastValidBlockHeight }).add(
+            createAssociatedTokenAccountIdempotentInstruction(
+                this.wallet.publicKey,
+                destination,
+                payer,
+                mint,
+                programId
+            ),
+            createTransferCheckedInstruction(
+                source,
+                mint,
+                destination,
+                this.wallet.publicKey,
+                BigInt(toAtomicAmount(record.amount, accepted.decimals)),
+                accepted.decimals,
+                [],
+                programId
+            )
+        );
+        tx.addSignature(this.wallet.publicKey, Buffer.from(await this.wallet.signMessage(tx.serializeMessage())));
+
+        // Record the signature before sending so a crash can't cause a second refund
+        record.signature = encodeBase58(tx.signature!);
+        record.lastValidBlockHeight = lastValidBlockHeight;
+        record.status = 'sent';
+        this.update(record);
+
+        await this.connection.sendRawTransaction(tx.serialize());
+        const { value } = await this.connection.confirmTransaction(
+            { signature: record.signature, blockhash, lastValidBlockHeight },
+            'confirmed'
+        );
+        if (value.err) {
+            throw new Error(`Refund transaction failed: ${JSON.stringify(value.err)}`);
+        }
+
+        await this.confirm(record);
+    }
+
+    private async confirm(record: RefundRecord): Promise<void> {
+        record.status = 'confirmed';
+        record.nextAttemptAt = undefined;
+        this.update(record);
+
+        await this.ledger.markRefunded(record.paymentSignature, record.signature!);
+        this.logger.info('Refund confirmed', {
+            refundId: record.id,
+            requestId: record.requestId,
+            amount: record.amount,
+            to: record.to,
+            signature: record.signature,
+        });
+    }
+
+    private update(record: RefundRecord): void {
+        record.updatedAt = new Date().toISOString();
+        this.persist();
+
+        if (isSettled(record.status)) {
+            for (const resolve of this.waiters.get(record.id) ?? []) {
+                resolve({ ...record });
+            }
+            this.waiters.delete(record.id);
+        }
+    }
+
+    private persist(): void {
+        if (!this.path) {
+            return;
+        }
+
+        writeFileAtomic(this.path, JSON.stringify(Array.from(this.records.values()), null, 2));
+    }
+}
+
+function isSettled(status: RefundStatus): boolean {
+    return status === 'confirmed' || status === 'failed';
+}
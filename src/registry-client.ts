@@ -1,99 +1,177 @@
 import fetch from 'node-fetch';
 import { ProviderHealth } from '@x402apis/protocol';
+import { randomBytes } from 'crypto';
 import { RegistryError } from './errors';
+import { defaultLogger } from './logger';
+import { APILoad, JSONSchema, Logger, RegistryOptions, Signer, WindowedMetrics } from './types';
+import { encodeBase58, sleep } from './utils';
 
 /**
- * Client for interacting with the registry
+ * Registration payload
+ */
+export interface RegistrationData {
+    apis: string[];
+    url: string;
+    prices: Record<string, number>;
+    chains: string[];
+    schemas?: Record<string, { params?: JSONSchema; result?: JSONSchema; description?: string }>;
+}
+
+/**
+ * Heartbeat payload
+ */
+export type HeartbeatData = Omit<ProviderHealth, 'providerId' | 'timestamp'> & {
+    /** Windowed metrics the summary fields are taken from */
+    metrics?: WindowedMetrics;
+
+    /** Queue depth and saturation of APIs with a concurrency limit, so routers can shed load */
+    load?: Record<string, APILoad>;
+};
+
+/**
+ * Client for interacting with the registry.
+ *
+ * Every request body carries the provider ID, a timestamp and a nonce, and is
+ * signed with the wallet (ed25519, base58) over its JSON without the `signature`
+ * field, so the registry can reject spoofed or replayed messages.
  */
 export class RegistryClient {
     private registryUrl: string;
     private providerId: string;
+    private wallet: Signer;
+    private maxRetries: number;
+    private baseDelay: number;
+    private maxDelay: number;
+    private heartbeatMs: number;
+    private getHealth: () => HeartbeatData;
+    private logger: Logger;
     private heartbeatInterval?: NodeJS.Timeout;
+    private registration?: RegistrationData;
+    private registering?: Promise<void>;
+    private stopped = false;
 
-    constructor(registryUrl: string, providerId: string) {
+    constructor(
+        registryUrl: string,
+        wallet: Signer,
+        options: RegistryOptions = {},
+        getHealth: () => HeartbeatData = () => ({ latency: 0, requestsServed: 0, errors: 0 }),
+        logger: Logger = defaultLogger
+    ) {
         this.registryUrl = registryUrl;
-        this.providerId = providerId;
+        this.wallet = wallet;
+        this.providerId = wallet.publicKey.toString();
+        this.maxRetries = options.maxRetries ?? 5;
+        this.baseDelay = options.baseDelay ?? 1000;
+        this.maxDelay = options.maxDelay ?? 60000;
+        this.heartbeatMs = options.heartbeatInterval ?? 60000;
+        this.getHealth = getHealth;
+        this.logger = logger;
     }
 
     /**
-     * Register provider with registry
+     * Register provider with registry, retrying with backoff
      */
-    async register(data: {
-        apis: string[];
-        url: string;
-        prices: Record<string, number>;
-        chains: string[];
-    }): Promise<void> {
-        try {
-            const response = await fetch(`${this.registryUrl}/register`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    providerId: this.providerId,
-                    ...data,
-                }),
-            });
-
-            if (!response.ok) {
-                const error = await response.text();
-                throw new RegistryError(`Registration failed: ${error}`);
-            }
+    async register(data: RegistrationData): Promise<void> {
+        this.registration = data;
+        this.stopped = false;
 
-            // Start heartbeat
-            this.startHeartbeat();
+        try {
+            await this.withRetry(() => this.send('/register', data), this.maxRetries);
         } catch (error) {
-            throw new RegistryError(`Failed to register: ${error}`);
+            throw new RegistryError(`Failed to register: ${error instanceof Error ? error.message : error}`);
         }
+
+        // Start heartbeat
+        this.startHeartbeat();
     }
 
     /**
-     * Send heartbeat to registry
+     * Register in the background, retrying until it succeeds or the client is stopped.
+     * Used when the node starts while the registry is unreachable, and to push changes.
+     * If called again while a registration is running, the newest data is sent once it finishes.
      */
-    async heartbeat(health: Omit<ProviderHealth, 'providerId' | 'timestamp'>): Promise<void> {
-        try {
-            await fetch(`${this.registryUrl}/heartbeat`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    providerId: this.providerId,
-                    ...health,
-                    timestamp: new Date().toISOString(),
-                }),
+    registerInBackground(data: RegistrationData): void {
+        this.registration = data;
+        this.stopped = false;
+
+        this.registering ??= this.registerLatest()
+            .then(() => {
+                this.logger.info('Registered with registry', { registry: this.registryUrl });
+                this.startHeartbeat();
+            })
+            .catch(error => {
+                // Only reachable when stopped
+                this.logger.warn('Background registration stopped', { err: error });
+            })
+            .finally(() => {
+                this.registering = undefined;
             });
+    }
+
+    /**
+     * Send heartbeat to registry.
+     * If the registry no longer knows this provider (e.g. after a restart), re-register.
+     */
+    async heartbeat(health: HeartbeatData): Promise<void> {
+        try {
+            const response = await this.post('/heartbeat', health);
+
+            if ([401, 404, 410].includes(response.status) && this.registration && !this.stopped) {
+                this.logger.warn('Heartbeat rejected, re-registering', { status: response.status });
+                this.stopHeartbeat();
+                this.registerInBackground(this.registration);
+            } else if (!response.ok) {
+                this.logger.error('Heartbeat failed', { status: response.status });
+            }
         } catch (error) {
             // Don't throw - heartbeat failures shouldn't stop the server
-            console.error('Heartbeat failed:', error);
+            this.logger.error('Heartbeat failed', { err: error });
         }
     }
 
+    /**
+     * Send a last heartbeat with the final metrics, then unregister
+     */
+    async close(): Promise<void> {
+        this.stopped = true;
+        this.stopHeartbeat();
+        await this.heartbeat(this.getHealth());
+        await this.unregister();
+    }
+
     /**
      * Unregister provider
      */
     async unregister(): Promise<void> {
+        this.stopped = true;
         this.stopHeartbeat();
 
         try {
-            await fetch(`${this.registryUrl}/unregister`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ providerId: this.providerId }),
-            });
+            await this.send('/unregister', {});
         } catch (error) {
-            console.error('Failed to unregister:', error);
+            this.logger.error('Failed to unregister', { err: error });
         }
     }
 
+    /**
+     * Register until the registry has the newest data
+     */
+    private async registerLatest(): Promise<void> {
+        let sent: RegistrationData;
+        do {
+            sent = this.registration!;
+            await this.withRetry(() => this.send('/register', sent), Infinity);
+        } while (sent !== this.registration);
+    }
+
     /**
      * Start periodic heartbeat
      */
     private startHeartbeat(): void {
+        this.stopHeartbeat();
         this.heartbeatInterval = setInterval(() => {
-            this.heartbeat({
-                latency: 0,
-                requestsServed: 0,
-                errors: 0,
-            });
-        }, 60000); // Every minute
+            void this.heartbeat(this.getHealth());
+        }, this.heartbeatMs);
     }
 
     /**
@@ -102,6 +180,72 @@ export class RegistryClient {
     private stopHeartbeat(): void {
         if (this.heartbeatInterval) {
             clearInterval(this.heartbeatInterval);
+            this.heartbeatInterval = undefined;
+        }
+    }
+
+    /**
+     * POST a signed message and throw unless the registry accepted it
+     */
+    private async send(path: string, data: object): Promise<void> {
+        const response = await this.post(path, data);
+
+        if (!response.ok) {
+            const error = await response.text();
+            throw new RegistryError(`${path} failed (HTTP ${response.status}): ${error}`);
+        }
+    }
+
+    /**
+     * POST a signed message
+     */
+    private async post(path: string, data: object) {
+        return fetch(`${this.registryUrl}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(await this.sign(data)),
+        });
+    }
+
+    /**
+     * Add identity, freshness and an ed25519 signature to a message
+     */
+    private async sign(data: object): Promise<Record<string, unknown>> {
+        const message = {
+            providerId: this.providerId,
+            ...data,
+            timestamp: new Date().toISOString(),
+            nonce: randomBytes(16).toString('hex'),
+        };
+        const signature = await this.wallet.signMessage(Buffer.from(JSON.stringify(message)));
+
+        return { ...message, signature: encodeBase58(signature) };
+    }
+
+    /**
+     * Retry with exponential backoff and full jitter
+     */
+    private async withRetry(fn: () => Promise<void>, attempts: number): Promise<void> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await fn();
+            } catch (error) {
+                if (attempt >= attempts || this.stopped) {
+                    throw error;
+                }
+
+                const delay = Math.random() * Math.min(this.maxDelay, this.baseDelay * 2 ** (attempt - 1));
+                this.logger.warn('Registry request failed, retrying', {
+                    attempt,
+                    delayMs: Math.round(delay),
+                    err: error,
+                });
+                await sleep(delay);
+
+                if (this.stopped) {
+                    throw error;
+                }
+            }
         }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,39 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { JSONSchema } from './types';
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+/**
+ * A field-level validation error
+ */
+export interface FieldError {
+    /** JSON pointer to the offending field ('' for the root) */
+    field: string;
+    message: string;
+}
+
+/**
+ * Validates a value, resolving to field-level errors (empty when valid)
+ */
+export type SchemaValidator = (value: unknown) => FieldError[];
+
+/**
+ * Compile a JSON Schema. Throws if the schema itself is invalid.
+ */
+export function compileSchema(schema: JSONSchema): SchemaValidator {
+    const validate: ValidateFunction = ajv.compile(schema);
+
+    return (value: unknown) => (validate(value) ? [] : formatErrors(validate.errors ?? []));
+}
+
+function formatErrors(errors: ErrorObject[]): FieldError[] {
+    return errors.map(error => {
+        // Point at the missing property itself rather than its parent
+        const field =
+            error.keyword === 'required'
+                ? `${error.instancePath}/${(error.params as { missingProperty: string }).missingProperty}`
+                : error.instancePath;
+
+        return { field, message: error.message ?? 'is invalid' };
+    });
+}
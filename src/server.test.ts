@@ -0,0 +1,414 @@
+import { Keypair } from '@solana/web3.js';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import fetch from 'node-fetch';
+import nacl from 'tweetnacl';
+import { MemoryBalanceStore } from './balances';
+import { InsufficientPaymentError, TransactionNotFoundError } from './errors';
+import { silentLogger } from './logger';
+import { MemoryPaymentLedger } from './payment-ledger';
+import { createProviderServer } from './server';
+import { BalanceStore, ChainVerifier, ProviderServer } from './types';
+import { sleep } from './utils';
+import { KeypairSigner } from './wallet';
+
+const PAYER = 'payer-wallet';
+const USDC = 'usdc-mint';
+
+/**
+ * Accepts any proof as a payment of 0.1 USDC, except the ones it is told to reject.
+ * Proofs starting with `slow-` take a while to check, like a real RPC round trip.
+ */
+const verifier: ChainVerifier = {
+    chain: 'solana',
+    requirements: offer => [
+        {
+            scheme: 'exact',
+            network: 'solana',
+            maxAmountRequired: String(Math.round(offer.price * 1e6)),
+            resource: offer.resource,
+            description: offer.api,
+            mimeType: 'application/json',
+            payTo: 'provider-account',
+            maxTimeoutSeconds: offer.timeoutSeconds,
+            asset: USDC,
+            extra: {
+                api: offer.api,
+                price: offer.price,
+                decimals: 6,
+                owner: 'provider-wallet',
+                nonce: offer.nonce,
+                expiresAt: offer.expiresAt,
+            },
+        },
+    ],
+    verify: async (proof, expected) => {
+        if (proof.startsWith('slow-')) {
+            await sleep(100);
+        }
+        if (proof.includes('missing-')) {
+            throw new TransactionNotFoundError(proof);
+        }
+        if (expected.price > 0.1) {
+            throw new InsufficientPaymentError(expected.price, 0.1);
+        }
+        return { amount: 0.1, from: PAYER, asset: USDC, reference: proof };
+    },
+};
+
+/**
+ * An X-Payer-Auth header for paying from the keypair's prepaid balance
+ */
+function payerAuth(keypair: Keypair): Record<string, string> {
+    const wallet = keypair.publicKey.toBase58();
+    const timestamp = Date.now();
+    const message = new TextEncoder().encode(`x402-balance:${wallet}:${timestamp}`);
+    const signature = Buffer.from(nacl.sign.detached(message, keypair.secretKey)).toString('base64');
+    return { 'X-Payer-Auth': `${wallet}:${timestamp}:${signature}` };
+}
+
+describe('POST /call', () => {
+    const ledger = new MemoryPaymentLedger();
+    let provider: ProviderServer;
+    let baseUrl: string;
+    let proofs = 0;
+
+    beforeAll(async () => {
+        provider = createProviderServer({
+            wallet: new KeypairSigner(Keypair.generate()),
+            port: 0,
+            registry: 'http://127.0.0.1:1',
+            registryOptions: { offlineStart: true },
+            logger: silentLogger,
+            verifiers: [verifier],
+            ledger,
+        });
+        provider.addAPI('test.echo', async params => params, { price: 0.1 });
+        provider.addAPI('test.expensive', async params => params, { price: 1 });
+        provider.addAPI(
+            'test.fail',
+            async () => {
+                throw new Error('Upstream unavailable');
+            },
+            { price: 0.1 }
+        );
+        provider.addAPI(
+            'test.single',
+            async params => {
+                await sleep(100);
+                return params;
+            },
+            { price: 0.1, maxConcurrency: 1 }
+        );
+        provider.addAPI('test.typed', async params => params, {
+            price: 0.1,
+            paramsSchema: { type: 'object', required: ['text'], properties: { text: { type: 'string' } } },
+        });
+
+        const server: Server = await provider.start();
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => provider.stop());
+
+    const call = (body: unknown, proof?: string) =>
+        fetch(`${baseUrl}/call`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(proof && { 'X-Payment': proof }) },
+            body: JSON.stringify(body),
+        });
+    const newProof = () => `proof-${++proofs}`;
+
+    it('answers a paid call and spends the payment', async () => {
+        const proof = newProof();
+
+        const res = await call({ api: 'test.echo', params: { text: 'hi' } }, proof);
+
+        expect(res.status).toBe(200);
+        expect((await res.json()).data).toEqual({ text: 'hi' });
+        expect(res.headers.get('X-Payment-Response')).toBeTruthy();
+        expect((await ledger.get(proof))?.status).toBe('spent');
+    });
+
+    it('asks for payment when there is no X-Payment header', async () => {
+        const res = await call({ api: 'test.echo', params: {} });
+        const body = await res.json();
+
+        expect(res.status).toBe(402);
+        expect(body.accepts).toEqual([expect.objectContaining({ network: 'solana', maxAmountRequired: '100000' })]);
+        // Nonces are only issued when payments must carry one
+        expect(body.accepts[0].extra.nonce).toBeUndefined();
+    });
+
+    it('rejects a payment the verifier refuses with its reason', async () => {
+        const res = await call({ api: 'test.echo', params: {} }, `missing-${newProof()}`);
+
+        expect(res.status).toBe(402);
+        expect(await res.json()).toMatchObject({ error: 'Invalid payment', reason: 'transaction_not_found' });
+    });
+
+    it('rejects a payment below the price', async () => {
+        const res = await call({ api: 'test.expensive', params: {} }, newProof());
+
+        expect(res.status).toBe(402);
+        expect((await res.json()).reason).toBe('insufficient_amount');
+    });
+
+    it('rejects a payment that was already used', async () => {
+        const proof = newProof();
+        await call({ api: 'test.echo', params: {} }, proof);
+
+        const res = await call({ api: 'test.echo', params: {} }, proof);
+
+        expect(res.status).toBe(402);
+        expect((await res.json()).reason).toBe('replay');
+    });
+
+    it('leaves a payment sent to a free route unused', async () => {
+        const proof = newProof();
+
+        for (const path of ['/apis', '/health', '/jobs/unknown', `/balance/${PAYER}`]) {
+            await fetch(`${baseUrl}${path}`, { headers: { 'X-Payment': proof } });
+        }
+
+        expect(await ledger.get(proof)).toBeUndefined();
+        expect((await call({ api: 'test.echo', params: {} }, proof)).status).toBe(200);
+    });
+
+    it('releases the payment when the API does not exist', async () => {
+        const proof = newProof();
+
+        const res = await call({ api: 'test.missing', params: {} }, proof);
+
+        expect((await res.json()).error).toBe('API not found: test.missing');
+        expect(await ledger.get(proof)).toBeUndefined();
+        expect((await call({ api: 'test.echo', params: {} }, proof)).status).toBe(200);
+    });
+
+    it('releases the payment when params are missing', async () => {
+        const proof = newProof();
+
+        const res = await call({ api: 'test.echo' }, proof);
+
+        expect(res.status).toBe(400);
+        expect(await ledger.get(proof)).toBeUndefined();
+    });
+
+    it('releases the payment when params fail the schema', async () => {
+        const proof = newProof();
+
+        const res = await call({ api: 'test.typed', params: { text: 1 } }, proof);
+
+        expect(res.status).toBe(400);
+        expect((await res.json()).error).toBe('Invalid params');
+        expect(await ledger.get(proof)).toBeUndefined();
+    });
+
+    it('releases the payment when the callback URL is not allowed', async () => {
+        const proof = newProof();
+
+        const res = await call(
+            { api: 'test.echo', params: {}, callbackUrl: 'http://169.254.169.254/latest/meta-data' },
+            proof
+        );
+
+        expect(res.status).toBe(400);
+        expect(await ledger.get(proof)).toBeUndefined();
+    });
+
+    it('marks the payment refundable when the handler fails', async () => {
+        const proof = newProof();
+
+        const res = await call({ api: 'test.fail', params: {} }, proof);
+
+        expect(res.status).toBe(500);
+        expect((await res.json()).error).toBe('Upstream unavailable');
+        expect(await ledger.get(proof)).toMatchObject({ status: 'refundable', reason: 'Upstream unavailable' });
+    });
+
+    describe('with a concurrency limit', () => {
+        it('does not hold a slot while an unpaid call is being verified', async () => {
+            const bogus = call({ api: 'test.single', params: {} }, `slow-missing-${newProof()}`);
+            await sleep(20);
+
+            const paid = await call({ api: 'test.single', params: {} }, newProof());
+
+            expect(paid.status).toBe(200);
+            expect((await bogus).status).toBe(402);
+        });
+
+        it('releases the payment of a verified call that finds no free slot', async () => {
+            const proofs = [`slow-${newProof()}`, `slow-${newProof()}`];
+
+            const responses = await Promise.all(proofs.map(proof => call({ api: 'test.single', params: {} }, proof)));
+
+            expect(responses.map(res => res.status).sort()).toEqual([200, 503]);
+            const rejected = proofs[responses.findIndex(res => res.status === 503)];
+            expect(await ledger.get(rejected)).toBeUndefined();
+        });
+    });
+});
+
+describe('prepaid balances', () => {
+    const payer = Keypair.generate();
+    let ledger: MemoryPaymentLedger;
+    let provider: ProviderServer;
+    let baseUrl: string;
+
+    const start = async (balances?: BalanceStore) => {
+        ledger = new MemoryPaymentLedger();
+        provider = createProviderServer({
+            wallet: new KeypairSigner(Keypair.generate()),
+            port: 0,
+            registry: 'http://127.0.0.1:1',
+            registryOptions: { offlineStart: true },
+            logger: silentLogger,
+            verifiers: [verifier],
+            ledger,
+            balances,
+        });
+        provider.addAPI('test.cheap', async params => params, { price: 0.04 });
+
+        const server: Server = await provider.start();
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    };
+
+    afterEach(() => provider.stop());
+
+    const post = (path: string, body: unknown, headers: Record<string, string> = {}) =>
+        fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify(body),
+        });
+
+    describe('with a balance store', () => {
+        const balances = new MemoryBalanceStore();
+
+        beforeEach(() => start(balances));
+
+        it('credits deposits and overpayment', async () => {
+            const deposit = await post('/deposit', {}, { 'X-Payment': 'deposit-proof' });
+            expect(await deposit.json()).toMatchObject({ deposited: 0.1, balance: 0.1 });
+
+            const res = await post('/call', { api: 'test.cheap', params: {} }, { 'X-Payment': 'call-proof' });
+
+            expect(await res.json()).toMatchObject({ cost: 0.04, balance: 0.16 });
+            expect((await ledger.get('deposit-proof'))?.status).toBe('spent');
+        });
+
+        it('pays a call from the balance with X-Payer-Auth', async () => {
+            await balances.credit(payer.publicKey.toBase58(), 0.1);
+
+            const res = await post('/call', { api: 'test.cheap', params: {} }, payerAuth(payer));
+
+            expect(res.status).toBe(200);
+            expect((await res.json()).balance).toBe(0.06);
+        });
+    });
+
+    describe('without a balance store', () => {
+        beforeEach(() => start());
+
+        it('turns deposits away without claiming the payment', async () => {
+            const res = await post('/deposit', {}, { 'X-Payment': 'deposit-proof' });
+
+            expect(res.status).toBe(404);
+            expect(await ledger.get('deposit-proof')).toBeUndefined();
+            expect((await fetch(`${baseUrl}/balance/${PAYER}`)).status).toBe(404);
+        });
+
+        it('does not credit overpayment', async () => {
+            const res = await post('/call', { api: 'test.cheap', params: {} }, { 'X-Payment': 'call-proof' });
+            const body = await res.json();
+
+            expect(res.status).toBe(200);
+            expect(body.cost).toBe(0.04);
+            expect(body).not.toHaveProperty('balance');
+        });
+
+        it('ignores X-Payer-Auth', async () => {
+            const res = await post('/call', { api: 'test.cheap', params: {} }, payerAuth(payer));
+
+            expect(res.status).toBe(402);
+            expect((await res.json()).error).toBe('X-Payment header is required');
+        });
+    });
+});
+
+describe('POST /batch', () => {
+    const ledger = new MemoryPaymentLedger();
+    const balances = new MemoryBalanceStore();
+    let provider: ProviderServer;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+        provider = createProviderServer({
+            wallet: new KeypairSigner(Keypair.generate()),
+            port: 0,
+            registry: 'http://127.0.0.1:1',
+            registryOptions: { offlineStart: true },
+            logger: silentLogger,
+            verifiers: [verifier],
+            ledger,
+            balances,
+            batch: { discount: 0.5 },
+        });
+        provider.addAPI('test.echo', async params => params, { price: 0.04 });
+        provider.addAPI(
+            'test.fail',
+            async () => {
+                throw new Error('Upstream unavailable');
+            },
+            { price: 0.04 }
+        );
+
+        const server: Server = await provider.start();
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => provider.stop());
+
+    const batch = (items: unknown, headers: Record<string, string>) =>
+        fetch(`${baseUrl}/batch`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify({ items }),
+        });
+    const echo = { api: 'test.echo', params: {} };
+
+    it('charges only the items that succeed and credits the rest of the payment', async () => {
+        const res = await batch([echo, echo, { api: 'test.fail', params: {} }], { 'X-Payment': 'batch-proof-1' });
+        const body = await res.json();
+        const statuses = body.results.map((result: { status: string }) => result.status);
+
+        expect(res.status).toBe(200);
+        expect(statuses).toEqual(['success', 'success', 'error']);
+        expect(body).toMatchObject({ subtotal: 0.12, discount: 0.5, cost: 0.04, balance: 0.06 });
+        expect((await ledger.get('batch-proof-1'))?.status).toBe('spent');
+    });
+
+    it('draws the price from the prepaid balance', async () => {
+        const payer = Keypair.generate();
+        await balances.credit(payer.publicKey.toBase58(), 1);
+
+        const res = await batch([echo, echo], payerAuth(payer));
+
+        expect(await res.json()).toMatchObject({ cost: 0.04, balance: 0.96 });
+    });
+
+    it('asks for payment when the balance falls short', async () => {
+        const res = await batch([echo], payerAuth(Keypair.generate()));
+
+        expect(res.status).toBe(402);
+        expect(await res.json()).toEqual({ error: 'Insufficient payment', required: 0.02, received: 0, balance: 0 });
+    });
+
+    it('rejects invalid items before using the payment', async () => {
+        const res = await batch([echo, { api: 'test.missing', params: {} }], { 'X-Payment': 'batch-proof-2' });
+
+        expect(res.status).toBe(400);
+        expect((await res.json()).error).toBe('Item 1: API not found: test.missing');
+        expect(await ledger.get('batch-proof-2')).toBeUndefined();
+    });
+});
@@ -1,73 +1,387 @@
-import express, { Express, Request, Response } from 'express';
-import { Keypair } from '@solana/web3.js';
+import express, { Express, NextFunction, Request, Response } from 'express';
+import { Connection, Keypair } from '@solana/web3.js';
 import { readFileSync } from 'fs';
-import { Chain, DEFAULT_REGISTRY_URL } from '@x402apis/protocol';
+import { Chain, CHAIN_CONFIGS, DEFAULT_REGISTRY_URL } from '@x402apis/protocol';
 import { paymentMiddleware } from './middleware';
-import { RegistryClient } from './registry-client';
-import { ServerConfig, APIHandler, APIConfig, ProviderServer, ServerStats } from './types';
-import { ProviderNodeError, APINotFoundError } from './errors';
-import { generateRequestId, loadWallet } from './utils';
+import { MemoryPaymentLedger } from './payment-ledger';
+import { encodePaymentResponse } from './payment-requirements';
+import { MemoryRateLimitStore, checkRateLimit, normalizeRateLimit } from './rate-limit';
+import { createJsonLogger, silentLogger } from './logger';
+import { PrometheusMetrics } from './prometheus';
+import { isStreamSource, pipeStream } from './streaming';
+import { DEFAULT_CACHE_ENTRIES, MemoryCacheStore, cacheKey } from './cache';
+import { FundsHold, Settlement, holdFunds, roundAmount } from './balances';
+import { MemoryCallLedger } from './call-ledger';
+import { MemorySessionStore, SessionManager } from './sessions';
+import { DEFAULT_ACCEPTED_MINTS, SolanaVerifier } from './solana-verifier';
+import { RefundQueue } from './refunds';
+import { SchemaValidator, compileSchema } from './schema';
+import { MetricsAggregator } from './metrics';
+import { RegistrationData, RegistryClient } from './registry-client';
+import { createAdminRouter } from './admin';
+import { createProxyHandler } from './proxy';
+import { JobQueue, JobRunner } from './jobs';
+import { BackendPool } from './balancer';
+import { ConcurrencyLimiter } from './concurrency';
+import {
+    ServerConfig,
+    APIHandler,
+    APIConfig,
+    ProviderServer,
+    ServerStats,
+    RequestContext,
+    StreamingAPIHandler,
+    ChainVerifier,
+    APIDescriptor,
+    RefundRecord,
+    RefundStatus,
+    CallLedger,
+    CallLedgerQuery,
+    CallRecord,
+    PaymentLedger,
+    ProxyAPIConfig,
+    BatchItemResult,
+    JobRecord,
+    BalancedAPIConfig,
+    BackendHealth,
+    APILoad,
+} from './types';
+import { ProviderNodeError, APINotFoundError, SessionExhaustedError, UpstreamError } from './errors';
+import { generateRequestId, runUntilAborted } from './utils';
+import { loadSigner } from './wallet';
 import { Server as HttpServer } from 'http'; // Import with an alias to avoid name conflicts
 import cors from 'cors'; // --- IMPORT CORS ---
 
+/**
+ * An API added to the server
+ */
+interface RegisteredAPI {
+    handler: APIHandler | StreamingAPIHandler;
+    config: APIConfig;
+    validateParams?: SchemaValidator;
+    validateResult?: SchemaValidator;
+    /** Disabled APIs stay registered locally but reject calls */
+    enabled: boolean;
+    limiter?: ConcurrencyLimiter;
+}
+
+/**
+ * A checked batch, priced before the batch discount (`subtotal`) and after (`price`)
+ */
+interface PreparedBatch {
+    items: Array<{ api: string; params: Record<string, unknown>; entry: RegisteredAPI }>;
+    subtotal: number;
+    price: number;
+}
+
 /**
  * Create a new provider server
  */
 export function createProviderServer(config: ServerConfig): ProviderServer {
     const {
-        wallet: walletPath,
+        wallet: walletSource,
         port = 9000,
         publicUrl,
         registry = 'https://x402apis.io/api',// DEFAULT_REGISTRY_URL,
+        registryOptions = {},
         chains = ['solana'],
-        defaultPrice = 0,
-        logging = true,
+        defaultPrice = 0.01,
+        logging,
+        logger = logging === false ? silentLogger : createJsonLogger(),
+        prometheus: prometheusConfig,
+        ledger = new MemoryPaymentLedger() as PaymentLedger,
+        payment: paymentConfig,
+        rateLimitStore = new MemoryRateLimitStore(),
+        balances,
+        cacheStore = new MemoryCacheStore(),
+        batch: batchConfig = {},
+        jobs: jobConfig,
+        sessions: sessionConfig,
+        sessionStore = new MemorySessionStore(),
+        refunds: refundPolicy,
+        metricsWindow,
+        callLedger = new MemoryCallLedger() as CallLedger,
+        adminToken,
+        adminWallets,
+        shutdown: shutdownConfig = {},
     } = config;
 
     // Initialize
     const app: Express = express();
-    app.use(cors()); // For development, a simple cors() is fine.
+    app.use(cors({ exposedHeaders: ['X-Payment-Response'] })); // For development, a simple cors() is fine.
 
-    const wallet = loadWallet(walletPath);
-    const registryClient = new RegistryClient(registry, wallet.publicKey.toString());
-    const handlers = new Map<string, { handler: APIHandler; config: APIConfig }>();
+    const wallet = loadSigner(walletSource);
+    const metrics = new MetricsAggregator(metricsWindow);
+    const prometheus = prometheusConfig ? new PrometheusMetrics(prometheusConfig.buckets) : undefined;
+    const registryClient = new RegistryClient(
+        registry,
+        wallet,
+        registryOptions,
+        () => {
+            const window = metrics.snapshot();
+            return {
+                latency: window.p50,
+                requestsServed: window.requests,
+                errors: window.errors,
+                metrics: window,
+                load: apiLoad(),
+            };
+        },
+        logger.child({ component: 'registry' })
+    );
+    const sessions = new SessionManager(wallet, sessionConfig, sessionStore);
+    const refunds = refundPolicy
+        ? new RefundQueue(
+              wallet,
+              new Connection(paymentConfig?.solanaRpcEndpoint ?? CHAIN_CONFIGS.solana.rpcEndpoint),
+              ledger,
+              paymentConfig?.mints ?? DEFAULT_ACCEPTED_MINTS,
+              refundPolicy,
+              logger.child({ component: 'refunds' })
+          )
+        : undefined;
+    const jobs = new JobQueue(wallet, jobConfig, logger.child({ component: 'jobs' }));
+    const handlers = new Map<string, RegisteredAPI>();
+    const pools = new Map<string, BackendPool>();
 
     // Stats tracking
-    const stats: ServerStats = {
+    const stats: Omit<ServerStats, 'metrics' | 'backends' | 'load'> = {
         uptime: 0,
         requestsServed: 0,
         totalEarnings: 0,
         averageLatency: 0,
         errorRate: 0,
+        rateLimited: 0,
     };
     const startTime = Date.now();
     let totalLatency = 0;
     let errorCount = 0;
 
+    // Server instance and traffic state
+    let server: any;
+    let inFlight = 0;
+    let draining = false;
+    let stopping: Promise<void> | undefined;
+    const idleWaiters = new Set<() => void>();
+
 
     // Middleware
-    app.use(express.json({ limit: '10mb' }));
-
-    // Logging middleware
-    if (logging) {
-        app.use((req, res, next) => {
-            const start = Date.now();
-            res.on('finish', () => {
-                const duration = Date.now() - start;
-                console.log(`${req.method} ${req.path} - ${res.statusCode} (${duration}ms)`);
+    app.use(
+        express.json({
+            limit: '10mb',
+            // Signed admin requests cover the exact body bytes
+            verify: (req, res, buf) => {
+                (req as any).rawBody = buf;
+            },
+        })
+    );
+
+    // Request logging and call metrics
+    app.use((req, res, next) => {
+        const start = Date.now();
+        // Mounted routers rewrite req.path, so keep the original
+        const path = req.path;
+        res.on('finish', () => {
+            const duration = Date.now() - start;
+            logger.info('Request handled', {
+                requestId: (req as any).requestId,
+                method: req.method,
+                path,
+                status: res.statusCode,
+                durationMs: duration,
             });
-            next();
+
+            if (path === '/call') {
+                // Only registered names become labels
+                const api = typeof req.body?.api === 'string' && handlers.has(req.body.api) ? req.body.api : 'unknown';
+                prometheus?.recordCall(api, res.statusCode, duration / 1000);
+            } else if (path === '/batch') {
+                prometheus?.recordCall('batch', res.statusCode, duration / 1000);
+            }
         });
-    }
+        next();
+    });
 
     // Payment verification
-    app.use(paymentMiddleware(wallet, chains));
+    // Solana is built in; other chains come from the configured verifiers
+    const verifiers: ChainVerifier[] = [];
+    for (const chain of chains) {
+        const verifier =
+            config.verifiers?.find(v => v.chain === chain) ??
+            (chain === 'solana'
+                ? new SolanaVerifier(wallet.publicKey, {
+                      rpcEndpoint: paymentConfig?.solanaRpcEndpoint,
+                      mints: paymentConfig?.mints,
+                  })
+                : undefined);
+
+        if (verifier) {
+            verifier.instrument?.({
+                logger: logger.child({ component: 'verifier', chain }),
+                observeRPC: (method, seconds, ok) => prometheus?.recordRPC(chain, method, seconds, ok),
+            });
+            verifiers.push(verifier);
+        } else {
+            logger.warn('No payment verifier configured for chain', { chain });
+        }
+    }
+
+    // Admin API for live reconfiguration
+    if (adminToken || adminWallets?.length) {
+        app.use(
+            '/admin',
+            createAdminRouter({
+                token: adminToken,
+                wallets: adminWallets ?? [],
+                callLedger,
+                listAPIs: () =>
+                    Array.from(handlers.entries()).map(([name, { config, enabled }]) => ({
+                        name,
+                        enabled,
+                        price: config.price,
+                        timeout: config.timeout,
+                        rateLimit: config.rateLimit,
+                        stream: config.stream,
+                        description: config.description,
+                    })),
+                updateAPI: (name, update) => {
+                    const entry = handlers.get(name);
+                    if (!entry) {
+                        return false;
+                    }
+                    entry.config = { ...entry.config, ...update };
+                    logger.info('Updated API', { api: name, ...update });
+                    pushRegistration();
+                    return true;
+                },
+                setEnabled: (name, enabled) => {
+                    const entry = handlers.get(name);
+                    if (!entry) {
+                        return false;
+                    }
+                    entry.enabled = enabled;
+                    logger.info(enabled ? 'Enabled API' : 'Disabled API', { api: name });
+                    pushRegistration();
+                    return true;
+                },
+                removeAPI: name => {
+                    if (!handlers.delete(name)) {
+                        return false;
+                    }
+                    pools.delete(name);
+                    logger.info('Removed API', { api: name });
+                    pushRegistration();
+                    return true;
+                },
+                setDraining: async value => {
+                    if (value === draining) {
+                        return;
+                    }
+                    draining = value;
+                    logger.info(draining ? 'Draining traffic' : 'Resumed traffic', { inFlight });
+
+                    // Stop clients from discovering the node while it drains
+                    if (draining) {
+                        await registryClient.unregister();
+                    } else {
+                        pushRegistration();
+                    }
+                },
+                getStats: () => ({ ...currentStats(), inFlight, draining }),
+            })
+        );
+    }
+
+    // Turn calls away before their payment is consumed when draining, an API is disabled or it's saturated
+    app.use(['/call', '/batch'], (req: Request, res: Response, next: NextFunction) => {
+        const names: unknown[] = Array.isArray(req.body?.items)
+            ? req.body.items.map((item: any) => item?.api)
+            : [req.body?.api];
+        const disabled = names.find(name => typeof name === 'string' && handlers.get(name)?.enabled === false);
+        if (draining || disabled) {
+            res.setHeader('Retry-After', '30');
+            return res.status(503).json({ error: draining ? 'Node is draining' : `API is disabled: ${disabled}` });
+        }
+        if (typeof req.body?.api === 'string' && handlers.get(req.body.api)?.config.async && jobs.isFull()) {
+            res.setHeader('Retry-After', '30');
+            return res.status(503).json({ error: 'Job queue is full' });
+        }
+
+        // Batch items take their slots as they run, but a saturated API fails the batch up front
+        const saturated = names.find(name => typeof name === 'string' && handlers.get(name)?.limiter?.isSaturated());
+        if (saturated) {
+            res.setHeader('Retry-After', '5');
+            return res.status(503).json({ error: `API is at capacity: ${saturated}` });
+        }
+
+        inFlight++;
+        res.once('close', () => {
+            if (--inFlight === 0) {
+                idleWaiters.forEach(resolve => resolve());
+            }
+        });
+
+        next();
+    });
+
+    // Only the routes that take a payment verify and claim X-Payment; any other route leaves it unused
+    app.post(
+        ['/call', '/batch', ...(balances ? ['/deposit'] : []), '/session'],
+        paymentMiddleware({
+            verifiers,
+            ledger,
+            getAPIConfig: api => {
+                const entry = handlers.get(api);
+                return entry?.enabled ? entry.config : undefined;
+            },
+            getBatchPrice: items => {
+                const batch = prepareBatch(items);
+                return 'error' in batch ? undefined : batch.price;
+            },
+            payment: paymentConfig,
+            sessions,
+            balances,
+            logger,
+            onVerification: (chain, outcome) => prometheus?.recordVerification(chain, outcome),
+        })
+    );
+
+    // A paid call takes its API's slot only once the payment is verified, so unpaid and
+    // bogus calls can't hold slots through an RPC round trip. A call holds its slot until
+    // the response is closed, so streams count until they end.
+    app.post('/call', async (req: Request, res: Response, next: NextFunction) => {
+        const limiter = typeof req.body?.api === 'string' ? handlers.get(req.body.api)?.limiter : undefined;
+        if (!limiter) {
+            return next();
+        }
+
+        const disconnected = new AbortController();
+        const onClose = () => disconnected.abort(new Error('Client disconnected'));
+        res.once('close', onClose);
+        try {
+            const release = await limiter.acquire(disconnected.signal);
+            res.off('close', onClose);
+            res.once('close', release);
+        } catch (error) {
+            res.off('close', onClose);
+            // Nothing ran, so the payment can be used again
+            await releasePayment((req as any).payment).catch(err =>
+                logger.error('Failed to release payment', { requestId: (req as any).requestId, err })
+            );
+            if (disconnected.signal.aborted) {
+                return;
+            }
+            res.setHeader('Retry-After', '5');
+            return res.status(503).json({ error: error instanceof Error ? error.message : 'API is at capacity' });
+        }
+        next();
+    });
 
     // Health check endpoint
     app.get('/health', (req: Request, res: Response) => {
         res.json({
             status: 'ok',
-            apis: Array.from(handlers.keys()),
+            apis: describeAPIs().map(api => api.name),
             wallet: wallet.publicKey.toString(),
             chains,
             stats: {
@@ -75,25 +389,49 @@ export function createProviderServer(config: ServerConfig): ProviderServer {
                 requestsServed: stats.requestsServed,
                 totalEarnings: stats.totalEarnings,
             },
+            ...(pools.size > 0 && { backends: backendHealth() }),
+        });
+    });
+
+    // Prometheus metrics
+    if (prometheus) {
+        app.get(prometheusConfig?.path ?? '/metrics', (req: Request, res: Response) => {
+            res.type('text/plain; version=0.0.4').send(prometheus.render());
         });
+    }
+
+    // API discovery endpoint
+    app.get('/apis', (req: Request, res: Response) => {
+        res.json({ apis: describeAPIs() });
     });
 
     // API call endpoint
     app.post('/call', async (req: Request, res: Response) => {
-        const requestId = generateRequestId();
+        const requestId: string = (req as any).requestId || generateRequestId();
         const startTime = Date.now();
+        const payment = (req as any).payment;
+        let executed = false;
+        let hold: FundsHold | undefined;
 
         try {
             const { api, params } = req.body;
 
             if (!api || typeof api !== 'string') {
+                await releasePayment(payment);
                 return res.status(400).json({ error: 'Missing or invalid API name' });
             }
 
             if (!params || typeof params !== 'object') {
+                await releasePayment(payment);
                 return res.status(400).json({ error: 'Missing or invalid params' });
             }
 
+            const { callbackUrl } = req.body;
+            if (callbackUrl !== undefined && !jobs.acceptsCallback(callbackUrl)) {
+                await releasePayment(payment);
+                return res.status(400).json({ error: 'callbackUrl must be a public or allowed http(s) URL' });
+            }
+
             // Get handler
             const handlerConfig = handlers.get(api);
             if (!handlerConfig) {
@@ -101,146 +439,1203 @@ export function createProviderServer(config: ServerConfig): ProviderServer {
                 throw new APINotFoundError(api);
             }
 
-            const { handler, config: apiConfig } = handlerConfig;
+            const { handler, config: apiConfig, validateParams, validateResult } = handlerConfig;
+
+            // Reject bad input before the payment is used
+            const paramErrors = validateParams?.(params) ?? [];
+            if (paramErrors.length > 0) {
+                await releasePayment(payment);
+                return res.status(400).json({ error: 'Invalid params', details: paramErrors, requestId });
+            }
+
+            // Enforce per-API and per-payer rate limits
+            const rateLimit = normalizeRateLimit(apiConfig.rateLimit);
+            if (rateLimit) {
+                const payer = payment.from !== 'unknown' ? payment.from : req.ip;
+                const limit = await checkRateLimit(rateLimitStore, api, payer, rateLimit);
+                if (!limit.allowed) {
+                    stats.rateLimited++;
+                    await releasePayment(payment);
+                    res.setHeader('Retry-After', Math.ceil(limit.retryAfterMs / 1000).toString());
+                    return res.status(429).json({
+                        error: 'Rate limit exceeded',
+                        requestId,
+                        retryAfter: limit.retryAfterMs,
+                    });
+                }
+            }
+
+            // A cached result is charged the cache price and skips the handler
+            const key = apiConfig.cache && cacheKey(params);
+            const cached = key ? await readCache(api, key, requestId) : undefined;
+            const price = cached !== undefined ? apiConfig.cache?.price ?? apiConfig.price : apiConfig.price;
+
+            const held = await holdForPayment(res, payment, price);
+            if (!held) {
+                return;
+            }
+            hold = held.hold;
+
+            // Async calls are answered now and run in the job queue
+            if (apiConfig.async && cached === undefined) {
+                const job = jobs.enqueue(
+                    {
+                        api,
+                        requestId,
+                        callbackUrl,
+                        paymentSignature: payment.signature,
+                        ...(payment.from !== 'unknown' && { payer: payment.from }),
+                        chain: payment.chain,
+                        asset: payment.asset,
+                        amount: payment.amount,
+                        held: hold?.held,
+                    },
+                    createJobRunner({ requestId, api, params, payment, price, hold, cacheKey: key || undefined })
+                );
+                hold = undefined;
 
-            // Verify payment amount matches price
-            const payment = (req as any).payment;
-            if (payment.amount < apiConfig.price) {
-                return res.status(402).json({
-                    error: 'Insufficient payment',
-                    required: apiConfig.price,
-                    received: payment.amount,
+                if (payment.signature) {
+                    res.setHeader('X-Payment-Response', encodePaymentResponse(payment));
+                }
+                return res.status(202).json({
+                    jobId: job.id,
+                    status: job.status,
+                    statusUrl: `/jobs/${job.id}`,
+                    requestId,
+                    timestamp: job.createdAt,
                 });
             }
 
-            // Execute handler with timeout
+            // Charge the real cost once the result is known
+            const settle = async (result: unknown): Promise<Settlement> => {
+                const cost = apiConfig.pricing && cached === undefined ? apiConfig.pricing(params, result) : price;
+                if (!hold) {
+                    return { charged: cost };
+                }
+
+                const settled = await hold.settle(cost);
+                hold = undefined;
+                return settled;
+            };
+            let settlement: Settlement | undefined;
+
+            // Execute handler with timeout; the signal lets it stop upstream work
+            executed = true;
             const timeout = apiConfig.timeout || 30000;
-            const result = await Promise.race([
-                handler(params),
-                new Promise((_, reject) =>
-                    setTimeout(() => reject(new Error('Handler timeout')), timeout)
-                ),
-            ]);
-
-            // Update stats
+            const controller = new AbortController();
+            const timer = setTimeout(() => controller.abort(new Error('Handler timeout')), timeout);
+            const onClose = () => {
+                if (!res.writableFinished) {
+                    controller.abort(new Error('Client disconnected'));
+                }
+            };
+            res.on('close', onClose);
+
+            const context: RequestContext = {
+                payment,
+                timestamp: new Date(startTime),
+                requestId,
+                api,
+                signal: controller.signal,
+                logger: logger.child({ requestId, api }),
+            };
+
+            let result: unknown;
+            try {
+                result =
+                    cached !== undefined
+                        ? cached
+                        : await runUntilAborted(Promise.resolve(handler(params, context)), controller.signal);
+
+                if (apiConfig.stream) {
+                    if (!isStreamSource(result)) {
+                        throw new ProviderNodeError('Streaming handler did not return an async iterable');
+                    }
+
+                    if (payment.signature) {
+                        res.setHeader('X-Payment-Response', encodePaymentResponse(payment));
+                    }
+
+                    // The timeout and disconnect signal keep applying while the stream runs
+                    await pipeStream(res, result, {
+                        mode: apiConfig.stream,
+                        contentType: apiConfig.contentType,
+                        signal: controller.signal,
+                        requestId,
+                        collect: !!apiConfig.pricing,
+                        trailer: async chunks => {
+                            settlement = await settle(chunks);
+                            return {
+                                requestId,
+                                latency: Date.now() - startTime,
+                                cost: settlement.charged,
+                                balance: settlement.balance,
+                            };
+                        },
+                    });
+                } else {
+                    const resultErrors = validateResult?.(result) ?? [];
+                    if (resultErrors.length > 0) {
+                        throw new ProviderNodeError(
+                            `Handler result does not match schema: ${resultErrors
+                                .map(e => `${e.field || '/'} ${e.message}`)
+                                .join(', ')}`
+                        );
+                    }
+
+                    settlement = await settle(result);
+
+                    if (key && cached === undefined) {
+                        await writeCache(api, key, result, requestId);
+                    }
+                }
+            } finally {
+                clearTimeout(timer);
+                res.off('close', onClose);
+            }
+
             const latency = Date.now() - startTime;
-            stats.requestsServed++;
-            stats.totalEarnings += apiConfig.price;
-            totalLatency += latency;
-            stats.averageLatency = totalLatency / stats.requestsServed;
-            stats.errorRate = errorCount / stats.requestsServed;
-
-            // Send heartbeat to registry
-            await registryClient.heartbeat({
-                latency,
-                requestsServed: stats.requestsServed,
-                errors: errorCount,
-            });
+            const cost = settlement?.charged ?? price;
+            await completeCall(requestId, api, payment, latency, cost);
+
+            // Streams have already been sent along with their trailer
+            if (apiConfig.stream) {
+                return;
+            }
+
+            if (payment.signature) {
+                res.setHeader('X-Payment-Response', encodePaymentResponse(payment));
+            }
+            if (key) {
+                res.setHeader('X-Cache', cached !== undefined ? 'HIT' : 'MISS');
+            }
 
             res.json({
                 data: result,
                 requestId,
                 latency,
-                cost: apiConfig.price,
+                cost,
+                ...(key && { cache: cached !== undefined ? 'hit' : 'miss' }),
+                ...(settlement?.balance !== undefined && { balance: settlement.balance }),
+                ...(settlement?.session && { session: settlement.session }),
                 timestamp: new Date().toISOString(),
             });
         } catch (error) {
             errorCount++;
             const latency = Date.now() - startTime;
+            if (typeof req.body?.api === 'string' && handlers.has(req.body.api)) {
+                metrics.record(req.body.api, latency, false);
+            }
 
-            if (logging) {
-                console.error(`Error handling request ${requestId}:`, error);
+            logger.error('Call failed', { requestId, api: req.body?.api, err: error });
+
+            if (executed) {
+                await recordCall(requestId, req.body.api, payment, latency, 0, error);
+            } else {
+                // Nothing ran, so the payment can be used again
+                await releasePayment(payment).catch(err =>
+                    logger.error('Failed to release payment', { requestId, err })
+                );
             }
 
-            res.status(500).json({
+            // Give back whatever was taken from the prepaid balance
+            if (hold) {
+                await hold.release().catch(err =>
+                    logger.error('Failed to release balance hold', { requestId, err })
+                );
+            }
+
+            // The payer was charged but got nothing back
+            const refund = executed
+                ? await refundResponse(requestId, req.body.api, payment, error, !res.headersSent)
+                : undefined;
+
+            // A stream that failed partway has already reported the error in-band
+            if (res.headersSent) {
+                return;
+            }
+
+            res.status(error instanceof UpstreamError ? error.statusCode : 500).json({
                 error: error instanceof Error ? error.message : 'Internal server error',
                 requestId,
                 latency,
+                ...(error instanceof UpstreamError &&
+                    error.upstreamStatus !== undefined && { upstreamStatus: error.upstreamStatus }),
+                ...refund,
             });
         }
     });
 
-    // Server instance
-    let server: any;
+    // Several calls paid for with one payment
+    app.post('/batch', async (req: Request, res: Response) => {
+        const requestId: string = (req as any).requestId || generateRequestId();
+        const startTime = Date.now();
+        const payment = (req as any).payment;
+        let hold: FundsHold | undefined;
+
+        try {
+            // Reject bad items before the payment is used
+            const batch = prepareBatch(req.body?.items);
+            if ('error' in batch) {
+                await releasePayment(payment);
+                return res.status(400).json({ ...batch, requestId });
+            }
+            const { items, subtotal, price } = batch;
+
+            const payer = payment.from !== 'unknown' ? payment.from : req.ip;
+            for (const item of items) {
+                const rateLimit = normalizeRateLimit(item.entry.config.rateLimit);
+                const limit = rateLimit && (await checkRateLimit(rateLimitStore, item.api, payer, rateLimit));
+                if (limit && !limit.allowed) {
+                    stats.rateLimited++;
+                    await releasePayment(payment);
+                    res.setHeader('Retry-After', Math.ceil(limit.retryAfterMs / 1000).toString());
+                    return res.status(429).json({
+                        error: `Rate limit exceeded for ${item.api}`,
+                        requestId,
+                        retryAfter: limit.retryAfterMs,
+                    });
+                }
+            }
+
+            // Each item counts as a call against a session's allowance
+            const held = await holdForPayment(res, payment, price, items.length);
+            if (!held) {
+                return;
+            }
+            hold = held.hold;
+
+            // Disconnecting cancels the items still running
+            const controller = new AbortController();
+            const onClose = () => {
+                if (!res.writableFinished) {
+                    controller.abort(new Error('Client disconnected'));
+                }
+            };
+            res.on('close', onClose);
+
+            const results: BatchItemResult[] = new Array(items.length);
+            let next = 0;
+            const worker = async () => {
+                while (next < items.length) {
+                    const index = next++;
+                    results[index] = await runBatchItem(items[index], index, requestId, payment, controller.signal);
+                }
+            };
+            try {
+                await Promise.all(
+                    Array.from({ length: Math.min(batchConfig.concurrency ?? 5, items.length) }, worker)
+                );
+            } finally {
+                res.off('close', onClose);
+            }
+
+            // Failed items cost nothing; what isn't used goes back to the prepaid balance
+            const cost = roundAmount(results.reduce((sum, result) => sum + result.cost, 0));
+            let settlement: Settlement = { charged: cost };
+            if (hold) {
+                settlement = await hold.settle(cost);
+                hold = undefined;
+            }
+
+            if (payment.signature) {
+                await ledger.markSpent(payment.signature);
+            }
+
+            for (const [index, result] of results.entries()) {
+                const ok = result.status === 'success';
+                if (ok) {
+                    stats.requestsServed++;
+                    totalLatency += result.latency;
+                } else {
+                    errorCount++;
+                }
+                metrics.record(result.api, result.latency, ok, result.cost);
+
+                // Each item is credited its share of the payment
+                const share = subtotal > 0 ? (payment.amount * items[index].entry.config.price) / subtotal : 0;
+                await recordCall(
+                    `${requestId}-${index}`,
+                    result.api,
+                    { ...payment, amount: roundAmount(share) },
+                    result.latency,
+                    result.cost,
+                    ok ? undefined : new Error(result.error)
+                );
+            }
+            stats.totalEarnings += settlement.charged;
+            stats.averageLatency = stats.requestsServed > 0 ? totalLatency / stats.requestsServed : 0;
+            stats.errorRate = stats.requestsServed > 0 ? errorCount / stats.requestsServed : 0;
+            prometheus?.recordEarnings(
+                payment.chain,
+                payment.asset ?? (payment.session ? 'session' : 'balance'),
+                settlement.charged
+            );
+
+            if (payment.signature) {
+                res.setHeader('X-Payment-Response', encodePaymentResponse(payment));
+            }
+
+            res.json({
+                results,
+                requestId,
+                latency: Date.now() - startTime,
+                subtotal,
+                discount: batchConfig.discount ?? 0,
+                cost: settlement.charged,
+                ...(settlement.balance !== undefined && { balance: settlement.balance }),
+                ...(settlement.session && { session: settlement.session }),
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            logger.error('Batch failed', { requestId, err: error });
+
+            if (hold) {
+                await hold.release().catch(err =>
+                    logger.error('Failed to release balance hold', { requestId, err })
+                );
+            }
+
+            // The payer was charged but got nothing back
+            const refund = await refundResponse(requestId, 'batch', payment, error);
+
+            res.status(500).json({
+                error: error instanceof Error ? error.message : 'Internal server error',
+                requestId,
+                ...refund,
+            });
+        }
+    });
+
+    // Deposit to a prepaid balance
+    app.post('/deposit', async (req: Request, res: Response) => {
+        if (!balances) {
+            return res.status(404).json({ error: 'Prepaid balances are not enabled on this node' });
+        }
+        const payment = (req as any).payment;
+        if (!payment?.signature) {
+            return res.status(400).json({ error: 'X-Payment header with a deposit transaction is required' });
+        }
+
+        try {
+            const balance = await balances.credit(payment.from, payment.amount);
+            await ledger.markSpent(payment.signature);
+
+            res.setHeader('X-Payment-Response', encodePaymentResponse(payment));
+            res.json({
+                deposited: payment.amount,
+                wallet: payment.from,
+                balance,
+                requestId: (req as any).requestId,
+            });
+        } catch (error) {
+            await releasePayment(payment);
+            res.status(500).json({ error: error instanceof Error ? error.message : 'Deposit failed' });
+        }
+    });
+
+    // Exchange one on-chain payment for a session token
+    app.post('/session', async (req: Request, res: Response) => {
+        const payment = (req as any).payment;
+        if (!payment?.signature) {
+            return res.status(400).json({ error: 'X-Payment header with a session payment is required' });
+        }
+
+        const { maxCalls, apis } = req.body ?? {};
+        if (
+            (maxCalls !== undefined && (!Number.isInteger(maxCalls) || maxCalls < 1)) ||
+            (apis !== undefined && (!Array.isArray(apis) || apis.some(api => typeof api !== 'string')))
+        ) {
+            await releasePayment(payment);
+            return res.status(400).json({ error: 'Invalid session options' });
+        }
+
+        try {
+            const { token, claims } = await sessions.issue({
+                payer: payment.from,
+                chain: payment.chain,
+                budget: payment.amount,
+                maxCalls,
+                apis,
+            });
+            await ledger.markSpent(payment.signature);
+
+            res.setHeader('X-Payment-Response', encodePaymentResponse(payment));
+            res.json({
+                token,
+                sessionId: claims.sid,
+                budget: claims.budget,
+                maxCalls: claims.maxCalls,
+                apis: claims.apis,
+                expiresAt: new Date(claims.exp * 1000).toISOString(),
+                requestId: (req as any).requestId,
+            });
+        } catch (error) {
+            await releasePayment(payment);
+            res.status(500).json({ error: error instanceof Error ? error.message : 'Session creation failed' });
+        }
+    });
+
+    // Refund status lookup
+    app.get('/refunds/:id', (req: Request, res: Response) => {
+        const refund = refunds?.get(req.params.id);
+        if (!refund) {
+            return res.status(404).json({ error: 'Refund not found' });
+        }
+        res.json(refund);
+    });
+
+    // Async job status and result
+    app.get('/jobs/:id', (req: Request, res: Response) => {
+        const job = jobs.get(req.params.id);
+        if (!job) {
+            return res.status(404).json({ error: 'Job not found' });
+        }
+        res.json(job);
+    });
+
+    // Prepaid balance lookup
+    app.get('/balance/:wallet', async (req: Request, res: Response) => {
+        if (!balances) {
+            return res.status(404).json({ error: 'Prepaid balances are not enabled on this node' });
+        }
+        res.json({ wallet: req.params.wallet, balance: await balances.get(req.params.wallet) });
+    });
+
+    /**
+     * Public descriptions of the registered APIs
+     */
+    function describeAPIs(): APIDescriptor[] {
+        return Array.from(handlers.entries())
+            .filter(([, { enabled }]) => enabled)
+            .map(([name, { config }]) => ({
+                name,
+                price: config.price,
+                description: config.description,
+                timeout: config.timeout,
+                stream: config.stream,
+                async: config.async,
+                paramsSchema: config.paramsSchema,
+                resultSchema: config.resultSchema,
+            }));
+    }
+
+    /**
+     * What the registry should know about this node
+     */
+    function buildRegistration(): RegistrationData {
+        const apis = describeAPIs();
+        return {
+            apis: apis.map(api => api.name),
+            url: publicUrl || `http://localhost:${port}`,
+            prices: Object.fromEntries(apis.map(api => [api.name, api.price])),
+            chains,
+            schemas: Object.fromEntries(
+                apis
+                    .filter(api => api.paramsSchema || api.resultSchema || api.description)
+                    .map(({ name, paramsSchema, resultSchema, description }) => [
+                        name,
+                        { params: paramsSchema, result: resultSchema, description },
+                    ])
+            ),
+        };
+    }
+
+    /**
+     * Send changed APIs to the registry once the node is running
+     */
+    function pushRegistration(): void {
+        if (server && !draining) {
+            registryClient.registerInBackground(buildRegistration());
+        }
+    }
+
+    /**
+     * Resolve to true once no calls are in flight, or false after the timeout
+     */
+    function waitForIdle(timeoutMs: number): Promise<boolean> {
+        if (inFlight === 0) {
+            return Promise.resolve(true);
+        }
+
+        return new Promise(resolve => {
+            const done = (idle: boolean) => {
+                clearTimeout(timer);
+                idleWaiters.delete(onIdle);
+                resolve(idle);
+            };
+            const onIdle = () => done(true);
+            const timer = setTimeout(() => done(false), timeoutMs);
+            idleWaiters.add(onIdle);
+        });
+    }
+
+    /**
+     * Stop on SIGINT/SIGTERM, then exit
+     */
+    function onSignal(signal: NodeJS.Signals): void {
+        logger.info('Received signal, shutting down', { signal });
+        provider.stop().then(
+            () => process.exit(0),
+            error => {
+                logger.error('Shutdown failed', { err: error });
+                process.exit(1);
+            }
+        );
+    }
+
+    function currentStats(): ServerStats {
+        return {
+            ...stats,
+            uptime: Date.now() - startTime,
+            metrics: metrics.snapshot(),
+            backends: backendHealth(),
+            load: apiLoad(),
+        };
+    }
+
+    function apiLoad(): Record<string, APILoad> {
+        const load: Record<string, APILoad> = {};
+        for (const [api, { limiter }] of handlers) {
+            if (limiter) {
+                load[api] = limiter.load();
+            }
+        }
+        return load;
+    }
+
+    function backendHealth(): Record<string, BackendHealth[]> {
+        return Object.fromEntries(Array.from(pools, ([api, pool]) => [api, pool.health()]));
+    }
+
+    /**
+     * Write a paid call to the call ledger. Free calls aren't recorded.
+     */
+    async function recordCall(
+        requestId: string,
+        api: string,
+        payment: RequestContext['payment'],
+        latency: number,
+        charged: number,
+        error?: unknown
+    ): Promise<void> {
+        if (payment.from === 'unknown') {
+            return;
+        }
+
+        await callLedger
+            .append({
+                requestId,
+                timestamp: new Date().toISOString(),
+                api,
+                payer: payment.from,
+                signature: payment.signature,
+                chain: payment.chain,
+                mint: payment.asset,
+                amountReceived: payment.amount,
+                priceCharged: charged,
+                latency,
+                outcome: error ? 'error' : 'success',
+                error: error ? (error instanceof Error ? error.message : String(error)) : undefined,
+            })
+            .catch(err => logger.error('Failed to record call', { requestId, err }));
+    }
+
+    /**
+     * Account for a call that succeeded: mark its payment spent and record it
+     */
+    async function completeCall(
+        requestId: string,
+        api: string,
+        payment: RequestContext['payment'],
+        latency: number,
+        cost: number
+    ): Promise<void> {
+        if (payment.signature) {
+            await ledger.markSpent(payment.signature);
+        }
+
+        stats.requestsServed++;
+        stats.totalEarnings += cost;
+        totalLatency += latency;
+        stats.averageLatency = totalLatency / stats.requestsServed;
+        stats.errorRate = errorCount / stats.requestsServed;
+        metrics.record(api, latency, true, cost);
+        prometheus?.recordEarnings(payment.chain, payment.asset ?? (payment.session ? 'session' : 'balance'), cost);
+        await recordCall(requestId, api, payment, latency, cost);
+    }
+
+    /**
+     * Mark the payment of a call whose handler failed refundable, and queue its refund
+     */
+    async function refundCall(
+        requestId: string,
+        api: string,
+        payment: RequestContext['payment'] | undefined,
+        error: unknown
+    ): Promise<RefundRecord | undefined> {
+        if (!payment?.signature) {
+            return undefined;
+        }
+
+        const reason = error instanceof Error ? error.message : 'Unknown error';
+        await ledger.markRefundable(payment.signature, reason).catch(err =>
+            logger.error('Failed to mark payment refundable', { requestId, err })
+        );
+
+        // Payments with a signature were made on-chain, so the asset is known
+        return refunds?.enqueue({
+            paymentSignature: payment.signature,
+            chain: payment.chain,
+            asset: payment.asset!,
+            to: payment.from,
+            amount: payment.amount,
+            api,
+            requestId,
+            reason,
+        });
+    }
+
+    /**
+     * Refund a failed paid call and describe the refund for the error response.
+     * With `wait`, the refund gets up to `responseWait` to settle first.
+     */
+    async function refundResponse(
+        requestId: string,
+        api: string,
+        payment: RequestContext['payment'] | undefined,
+        error: unknown,
+        wait = true
+    ): Promise<{ refund: Pick<RefundRecord, 'id' | 'status' | 'amount' | 'signature'> } | undefined> {
+        let refund = await refundCall(requestId, api, payment, error);
+        if (refund && refunds && wait) {
+            refund = (await refunds.waitFor(refund.id, refundPolicy?.responseWait ?? 10000)) ?? refund;
+        }
+
+        return (
+            refund && {
+                refund: { id: refund.id, status: refund.status, amount: refund.amount, signature: refund.signature },
+            }
+        );
+    }
+
+    /**
+     * Set aside the upfront price of `calls` calls from the session, or the payment and
+     * the payer's prepaid balance. Resolves to undefined once it has answered 402 because
+     * the payer can't cover the price.
+     */
+    async function holdForPayment(
+        res: Response,
+        payment: RequestContext['payment'],
+        price: number,
+        calls = 1
+    ): Promise<{ hold?: FundsHold } | undefined> {
+        let hold: FundsHold | undefined;
+        if (payment.session) {
+            try {
+                hold = await sessions.hold(payment.session, price, calls);
+            } catch (error) {
+                if (error instanceof SessionExhaustedError) {
+                    res.status(402).json({ error: 'Invalid payment', reason: error.reason, message: error.message });
+                    return undefined;
+                }
+                throw error;
+            }
+        } else if (payment.from !== 'unknown') {
+            hold = await holdFunds(balances, payment.from, price, payment.amount);
+        }
+
+        if (price > 0 && !hold) {
+            await releasePayment(payment);
+            res.status(402).json({
+                error: 'Insufficient payment',
+                required: price,
+                received: payment.amount,
+                ...(balances && payment.from !== 'unknown' && { balance: await balances.get(payment.from) }),
+            });
+            return undefined;
+        }
+
+        return { hold };
+    }
+
+    /**
+     * Refund a job the node stopped before finishing and return its balance hold
+     */
+    async function refundInterruptedJob(job: JobRecord): Promise<void> {
+        const { requestId } = job;
+
+        if (balances && job.payer && job.held) {
+            await balances
+                .credit(job.payer, job.held)
+                .catch(err => logger.error('Failed to return held balance', { requestId, err }));
+        }
+
+        if (job.paymentSignature && job.payer && job.chain) {
+            const payment = {
+                signature: job.paymentSignature,
+                from: job.payer,
+                chain: job.chain,
+                asset: job.asset,
+                amount: job.amount ?? 0,
+            };
+            await refundCall(requestId, job.api, payment, new Error(job.error)).catch(err =>
+                logger.error('Failed to refund interrupted job', { requestId, err })
+            );
+        } else if (job.paymentSignature) {
+            // Jobs persisted by older versions only kept the signature
+            await ledger
+                .markRefundable(job.paymentSignature, job.error)
+                .catch(err => logger.error('Failed to mark payment refundable', { requestId, err }));
+        }
+    }
+
+    /**
+     * Run an async call in the job queue, settling it like a synchronous call
+     */
+    function createJobRunner(call: {
+        requestId: string;
+        api: string;
+        params: Record<string, unknown>;
+        payment: RequestContext['payment'];
+        price: number;
+        hold?: FundsHold;
+        cacheKey?: string;
+    }): JobRunner {
+        const { requestId, api, params, payment, price, cacheKey: key } = call;
+        let hold = call.hold;
+
+        return async jobSignal => {
+            const startTime = Date.now();
+            const entry = handlers.get(api);
+            const controller = new AbortController();
+            const timer = setTimeout(
+                () => controller.abort(new Error('Handler timeout')),
+                entry?.config.timeout || 30000
+            );
+            const onAbort = () => controller.abort(jobSignal.reason);
+            if (jobSignal.aborted) {
+                onAbort();
+            }
+            jobSignal.addEventListener('abort', onAbort, { once: true });
+
+            try {
+                if (!entry) {
+                    throw new APINotFoundError(api);
+                }
+
+                const context: RequestContext = {
+                    payment,
+                    timestamp: new Date(startTime),
+                    requestId,
+                    api,
+                    signal: controller.signal,
+                    logger: logger.child({ requestId, api }),
+                };
+                const result = await runUntilAborted(Promise.resolve(entry.handler(params, context)), controller.signal);
+
+                const resultErrors = entry.validateResult?.(result) ?? [];
+                if (resultErrors.length > 0) {
+                    throw new ProviderNodeError('Handler result does not match schema');
+                }
+
+                const cost = entry.config.pricing ? entry.config.pricing(params, result) : price;
+                const settlement = hold ? await hold.settle(cost) : { charged: cost };
+                hold = undefined;
+
+                if (key) {
+                    await writeCache(api, key, result, requestId);
+                }
+                await completeCall(requestId, api, payment, Date.now() - startTime, settlement.charged);
+
+                return { result, cost: settlement.charged };
+            } catch (error) {
+                const latency = Date.now() - startTime;
+                errorCount++;
+                metrics.record(api, latency, false);
+                logger.error('Job failed', { requestId, api, err: error });
+                await recordCall(requestId, api, payment, latency, 0, error);
+
+                if (hold) {
+                    await hold.release().catch(err =>
+                        logger.error('Failed to release balance hold', { requestId, err })
+                    );
+                }
+                await refundCall(requestId, api, payment, error);
+                throw error;
+            } finally {
+                clearTimeout(timer);
+                jobSignal.removeEventListener('abort', onAbort);
+            }
+        };
+    }
+
+    /**
+     * Look up a cached result. A failing store counts as a miss.
+     */
+    async function readCache(api: string, key: string, requestId: string): Promise<unknown> {
+        try {
+            const cached = await cacheStore.get(api, key);
+            prometheus?.recordCacheLookup(api, cached !== undefined);
+            return cached;
+        } catch (err) {
+            logger.error('Failed to read cache', { requestId, api, err });
+            return undefined;
+        }
+    }
+
+    /**
+     * Cache a successful result; the call has already succeeded if this fails
+     */
+    async function writeCache(api: string, key: string, result: unknown, requestId: string): Promise<void> {
+        const cache = handlers.get(api)?.config.cache;
+        if (!cache || result === undefined) {
+            return;
+        }
+
+        await cacheStore
+            .set(api, key, result, cache.ttl * 1000, cache.maxEntries ?? DEFAULT_CACHE_ENTRIES)
+            .catch(err => logger.error('Failed to write cache', { requestId, api, err }));
+    }
+
+    /**
+     * Check a batch's items and price it, or describe the first problem
+     */
+    function prepareBatch(items: unknown): PreparedBatch | { error: string; details?: unknown } {
+        const maxItems = batchConfig.maxItems ?? 100;
+        if (!Array.isArray(items) || items.length === 0) {
+            return { error: 'items must be a non-empty array of { api, params }' };
+        }
+        if (items.length > maxItems) {
+            return { error: `A batch can have at most ${maxItems} items` };
+        }
+
+        const prepared: PreparedBatch['items'] = [];
+        for (const [index, item] of items.entries()) {
+            const entry = typeof item?.api === 'string' ? handlers.get(item.api) : undefined;
+            if (!entry?.enabled) {
+                return { error: `Item ${index}: API not found: ${item?.api}` };
+            }
+            if (entry.config.stream || entry.config.async) {
+                return { error: `Item ${index}: streaming and async APIs can't be batched` };
+            }
+            if (!item.params || typeof item.params !== 'object') {
+                return { error: `Item ${index}: missing or invalid params` };
+            }
+
+            const paramErrors = entry.validateParams?.(item.params) ?? [];
+            if (paramErrors.length > 0) {
+                return { error: `Item ${index}: invalid params`, details: paramErrors };
+            }
+
+            prepared.push({ api: item.api, params: item.params, entry });
+        }
+
+        const subtotal = roundAmount(prepared.reduce((sum, item) => sum + item.entry.config.price, 0));
+        return { items: prepared, subtotal, price: roundAmount(subtotal * (1 - (batchConfig.discount ?? 0))) };
+    }
+
+    /**
+     * Run one batch item with its API's timeout. Failures become the item's result.
+     */
+    async function runBatchItem(
+        item: PreparedBatch['items'][number],
+        index: number,
+        requestId: string,
+        payment: RequestContext['payment'],
+        batchSignal: AbortSignal
+    ): Promise<BatchItemResult> {
+        const { api, params, entry } = item;
+        const { handler, config: apiConfig, validateResult } = entry;
+        const startTime = Date.now();
+        const discount = 1 - (batchConfig.discount ?? 0);
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(new Error('Handler timeout')), apiConfig.timeout || 30000);
+        const onAbort = () => controller.abort(batchSignal.reason);
+        batchSignal.addEventListener('abort', onAbort, { once: true });
+        let release: (() => void) | undefined;
+
+        try {
+            if (batchSignal.aborted) {
+                throw batchSignal.reason;
+            }
+
+            const key = apiConfig.cache && cacheKey(params);
+            const cached = key ? await readCache(api, key, requestId) : undefined;
+            if (cached !== undefined) {
+                return {
+                    api,
+                    status: 'success',
+                    data: cached,
+                    cost: roundAmount((apiConfig.cache?.price ?? apiConfig.price) * discount),
+                    latency: Date.now() - startTime,
+                    cache: 'hit',
+                };
+            }
+
+            release = await entry.limiter?.acquire(controller.signal);
 
-    return {
+            const context: RequestContext = {
+                payment,
+                timestamp: new Date(startTime),
+                requestId: `${requestId}-${index}`,
+                api,
+                signal: controller.signal,
+                logger: logger.child({ requestId, api, item: index }),
+            };
+            const result = await runUntilAborted(Promise.resolve(handler(params, context)), controller.signal);
+
+            const resultErrors = validateResult?.(result) ?? [];
+            if (resultErrors.length > 0) {
+                throw new ProviderNodeError('Handler result does not match schema');
+            }
+            if (key) {
+                await writeCache(api, key, result, requestId);
+            }
+
+            return {
+                api,
+                status: 'success',
+                data: result,
+                cost: roundAmount((apiConfig.pricing ? apiConfig.pricing(params, result) : apiConfig.price) * discount),
+                latency: Date.now() - startTime,
+                ...(key && { cache: 'miss' as const }),
+            };
+        } catch (error) {
+            logger.error('Batch item failed', { requestId, api, item: index, err: error });
+            return {
+                api,
+                status: 'error',
+                error: error instanceof Error ? error.message : 'Internal server error',
+                ...(error instanceof UpstreamError &&
+                    error.upstreamStatus !== undefined && { upstreamStatus: error.upstreamStatus }),
+                cost: 0,
+                latency: Date.now() - startTime,
+            };
+        } finally {
+            clearTimeout(timer);
+            batchSignal.removeEventListener('abort', onAbort);
+            release?.();
+        }
+    }
+
+    /**
+     * Free a claimed payment when the request is rejected before the handler runs
+     */
+    async function releasePayment(payment?: { signature?: string }): Promise<void> {
+        if (payment?.signature) {
+            await ledger.release(payment.signature);
+        }
+    }
+
+    const provider: ProviderServer = {
         /**
          * Add API handler
          */
-        addAPI(name: string, handler: APIHandler, config?: Partial<APIConfig>): void {
+        addAPI(name: string, handler: APIHandler | StreamingAPIHandler, config?: Partial<APIConfig>): void {
             const apiConfig: APIConfig = {
                 price: config?.price ?? defaultPrice,
                 timeout: config?.timeout,
                 rateLimit: config?.rateLimit,
+                pricing: config?.pricing,
+                stream: config?.stream,
+                contentType: config?.contentType,
+                paramsSchema: config?.paramsSchema,
+                resultSchema: config?.resultSchema,
+                description: config?.description,
+                cache: config?.cache,
+                async: config?.async,
+                maxConcurrency: config?.maxConcurrency,
+                maxQueue: config?.maxQueue,
+                queueTimeout: config?.queueTimeout,
             };
 
-            handlers.set(name, { handler, config: apiConfig });
+            if (apiConfig.cache && apiConfig.stream) {
+                throw new ProviderNodeError(`Streaming API ${name} can't be cached`);
+            }
+            if (apiConfig.async && apiConfig.stream) {
+                throw new ProviderNodeError(`Streaming API ${name} can't be async`);
+            }
+            if (apiConfig.async && apiConfig.maxConcurrency) {
+                throw new ProviderNodeError(`Async API ${name} is limited by the job queue, not maxConcurrency`);
+            }
 
-            if (logging) {
-                console.log(`✅ Registered API: ${name} (price: $${apiConfig.price})`);
+            let validateParams: SchemaValidator | undefined;
+            let validateResult: SchemaValidator | undefined;
+            try {
+                validateParams = apiConfig.paramsSchema && compileSchema(apiConfig.paramsSchema);
+                validateResult = apiConfig.resultSchema && compileSchema(apiConfig.resultSchema);
+            } catch (error) {
+                throw new ProviderNodeError(
+                    `Invalid schema for ${name}: ${error instanceof Error ? error.message : error}`
+                );
             }
+
+            const limiter = apiConfig.maxConcurrency
+                ? new ConcurrencyLimiter(name, apiConfig.maxConcurrency, apiConfig.maxQueue, apiConfig.queueTimeout)
+                : undefined;
+
+            handlers.set(name, { handler, config: apiConfig, validateParams, validateResult, enabled: true, limiter });
+            pools.delete(name);
+
+            logger.info('Registered API', { api: name, price: apiConfig.price });
+            pushRegistration();
         },
 
         /**
-         * Start server and register with registry
+         * Add an API that forwards calls to an upstream HTTP endpoint
          */
-        async start(): Promise<HttpServer> { // <-- Ensure the return type here matches the interface
-            return new Promise(async (resolve, reject) => {
-                try {
-                    // Register with the registry first
-                    const url = publicUrl || `http://localhost:${port}`;
-                    await registryClient.register({
-                        apis: Array.from(handlers.keys()),
-                        url,
-                        // You'll need to adjust this part to pass prices correctly if needed
-                        prices: Object.fromEntries(
-                            Array.from(handlers.entries()).map(([name, { config }]) => [name, config.price])
-                        ),
-                        chains,
-                    });
+        addProxyAPI(name: string, config: ProxyAPIConfig): void {
+            provider.addAPI(name, createProxyHandler(name, config), config);
+        },
 
-                    if (logging) {
-                        console.log(`✅ Registered with registry: ${registry}`);
-                    }
+        /**
+         * Add an API served by several backends, with failover between them
+         */
+        addBalancedAPI(name: string, config: BalancedAPIConfig): void {
+            const pool = new BackendPool(name, config, logger.child({ component: 'balancer' }));
+            provider.addAPI(name, pool.call, config);
+            pools.set(name, pool);
+        },
 
-                    // Start the Express server and store the instance
-                    server = app.listen(port, () => {
-                        if (logging) {
-                            console.log(`✅ Provider node running on port ${port}`);
-                            console.log(`💰 Earnings wallet: ${wallet.publicKey.toString()}`);
-                        }
-                        // Resolve the promise with the server instance
-                        resolve(server);
-                    });
+        /**
+         * Start listening, then register with the registry
+         */
+        async start(): Promise<HttpServer> {
+            // Stopping closed the ledgers, verifiers and job queue for good
+            if (stopping) {
+                throw new ProviderNodeError('Server was stopped; create a new one to start again');
+            }
+            if (server) {
+                throw new ProviderNodeError('Server is already running');
+            }
+
+            try {
+                server = await new Promise<HttpServer>((resolve, reject) => {
+                    const listening = app.listen(port);
+                    listening.once('listening', () => resolve(listening));
+                    listening.once('error', reject);
+                });
 
-                } catch (error) {
-                    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-                    reject(new ProviderNodeError(`Failed to start server: ${errorMessage}`));
+                if (registryOptions.offlineStart) {
+                    // Serve immediately and keep retrying until the registry is reachable
+                    registryClient.registerInBackground(buildRegistration());
+                } else {
+                    await registryClient.register(buildRegistration());
+
+                    logger.info('Registered with registry', { registry });
                 }
-            });
+            } catch (error) {
+                // Don't leave a half-started node behind
+                if (server) {
+                    server.close();
+                    server = undefined;
+                }
+
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                throw new ProviderNodeError(`Failed to start server: ${errorMessage}`);
+            }
+
+            // Retry refunds left over from a previous run
+            refunds?.start();
+
+            // Jobs cut short by the last shutdown got nothing for their payment
+            jobs.start();
+            for (const job of jobs.takeInterrupted()) {
+                await refundInterruptedJob(job);
+            }
+
+            if (shutdownConfig.handleSignals) {
+                process.once('SIGINT', onSignal);
+                process.once('SIGTERM', onSignal);
+            }
+
+            logger.info('Provider node running', { port, wallet: wallet.publicKey.toString() });
+            return server;
         },
+
         /**
-         * Stop server and unregister
+         * Stop taking calls, wait for in-flight ones up to the shutdown timeout,
+         * flush ledgers and metrics, unregister, and close the server
          */
-        async stop(): Promise<void> {
-            if (server) {
-                await registryClient.unregister();
-                server.close();
+        stop(): Promise<void> {
+            // A server that never started has nothing to stop and may still start
+            if (!server && !stopping) {
+                return Promise.resolve();
+            }
+
+            stopping ??= (async () => {
+                process.off('SIGINT', onSignal);
+                process.off('SIGTERM', onSignal);
 
-                if (logging) {
-                    console.log('✅ Server stopped');
+                // New calls get 503 from here on
+                const wasDraining = draining;
+                draining = true;
+
+                const idle = await waitForIdle(shutdownConfig.timeout ?? 30000);
+                if (!idle) {
+                    logger.warn('Shutdown timeout reached with calls in flight', { inFlight });
                 }
-            }
+                if (!(await jobs.stop(shutdownConfig.timeout ?? 30000))) {
+                    logger.warn('Shutdown timeout reached with jobs running');
+                }
+
+                refunds?.stop();
+                for (const verifier of verifiers) {
+                    await verifier.close?.();
+                }
+
+                // Draining through the admin API has already unregistered
+                if (!wasDraining) {
+                    await registryClient.close();
+                }
+
+                await ledger.close?.();
+                await callLedger.close?.();
+
+                await new Promise<void>(resolve => {
+                    server.close(() => resolve());
+                    // Idle keep-alive sockets would otherwise hold the server open
+                    server.closeIdleConnections?.();
+                    if (!idle) {
+                        server.closeAllConnections?.();
+                    }
+                });
+                server = undefined;
+
+                logger.info('Server stopped');
+            })();
+
+            return stopping;
+        },
+
+        /**
+         * List refunds, optionally by status
+         */
+        async getRefunds(status?: RefundStatus): Promise<RefundRecord[]> {
+            return refunds?.list(status) ?? [];
+        },
+
+        /**
+         * Paid calls matching a filter, oldest first
+         */
+        async getLedger(filter?: CallLedgerQuery): Promise<CallRecord[]> {
+            return callLedger.query(filter);
+        },
+
+        /**
+         * Look up an async job that hasn't expired
+         */
+        getJob(id: string): JobRecord | undefined {
+            return jobs.get(id);
         },
 
         /**
          * Get server statistics
          */
         getStats(): ServerStats {
-            return {
-                ...stats,
-                uptime: Date.now() - startTime,
-            };
+            return currentStats();
         },
 
         /**
@@ -251,4 +1646,6 @@ export function createProviderServer(config: ServerConfig): ProviderServer {
             return app;
         }
     };
+
+    return provider;
 }
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { Keypair } from '@solana/web3.js';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InvalidSessionError, SessionExhaustedError } from './errors';
+import { FileSessionStore, MemorySessionStore, SessionManager, isSessionToken } from './sessions';
+import { KeypairSigner } from './wallet';
+
+const issue = (sessions: SessionManager, budget = 1, maxCalls = 3) =>
+    sessions.issue({ payer: 'payer', chain: 'solana', budget, maxCalls });
+
+describe('SessionManager', () => {
+    const wallet = new KeypairSigner(Keypair.generate());
+
+    describe('verify', () => {
+        it('accepts tokens it issued', async () => {
+            const sessions = new SessionManager(wallet);
+            const { token, claims } = await issue(sessions);
+
+            expect(isSessionToken(token)).toBe(true);
+            expect(sessions.verify(token)).toEqual(claims);
+        });
+
+        it('rejects tokens signed by another wallet', async () => {
+            const { token } = await issue(new SessionManager(new KeypairSigner(Keypair.generate())));
+
+            expect(() => new SessionManager(wallet).verify(token)).toThrow(InvalidSessionError);
+        });
+
+        it('rejects tokens whose claims were changed', async () => {
+            const sessions = new SessionManager(wallet);
+            const { token, claims } = await issue(sessions);
+            const [, signature] = token.split('.');
+            const forged = Buffer.from(JSON.stringify({ ...claims, budget: 100 })).toString('base64url');
+
+            expect(() => sessions.verify(`${forged}.${signature}`)).toThrow('Invalid session signature');
+        });
+
+        it('rejects expired tokens', async () => {
+            const sessions = new SessionManager(wallet, { ttl: -1 });
+            const { token } = await issue(sessions);
+
+            expect(() => sessions.verify(token)).toThrow('Session expired');
+        });
+
+        it('caps the calls a session may ask for', async () => {
+            const sessions = new SessionManager(wallet, { maxCalls: 5 });
+
+            const { claims } = await issue(sessions, 1, 50);
+
+            expect(claims.maxCalls).toBe(5);
+        });
+    });
+
+    describe('hold', () => {
+        it('draws calls from the budget and reports what is left', async () => {
+            const sessions = new SessionManager(wallet);
+            const { claims } = await issue(sessions);
+
+            const hold = await sessions.hold(claims, 0.1);
+
+            expect(await hold.settle(0.25)).toEqual({
+                charged: 0.25,
+                session: { callsRemaining: 2, budgetRemaining: 0.75 },
+            });
+        });
+
+        it('caps a metered call at what is left of the budget', async () => {
+            const sessions = new SessionManager(wallet);
+            const { claims } = await issue(sessions, 0.3);
+
+            const hold = await sessions.hold(claims, 0.1);
+
+            expect((await hold.settle(0.5)).charged).toBe(0.3);
+        });
+
+        it('rejects calls past the call allowance', async () => {
+            const sessions = new SessionManager(wallet);
+            const { claims } = await issue(sessions, 1, 2);
+            await sessions.hold(claims, 0.1);
+            await sessions.hold(claims, 0.1);
+
+            await expect(sessions.hold(claims, 0.1)).rejects.toThrow(SessionExhaustedError);
+        });
+
+        it('counts every call of a multi-call hold', async () => {
+            const sessions = new SessionManager(wallet);
+            const { claims } = await issue(sessions, 1, 3);
+
+            await expect(sessions.hold(claims, 0.1, 4)).rejects.toThrow(SessionExhaustedError);
+            await sessions.hold(claims, 0.1, 3);
+            await expect(sessions.hold(claims, 0.1)).rejects.toThrow(SessionExhaustedError);
+        });
+
+        it('rejects calls past the budget', async () => {
+            const sessions = new SessionManager(wallet);
+            const { claims } = await issue(sessions, 0.15);
+            await sessions.hold(claims, 0.1);
+
+            await expect(sessions.hold(claims, 0.1)).rejects.toThrow(SessionExhaustedError);
+        });
+
+        it('gives the calls and budget back on release', async () => {
+            const sessions = new SessionManager(wallet);
+            const { claims } = await issue(sessions, 0.1, 1);
+            const hold = await sessions.hold(claims, 0.1);
+
+            await hold.release();
+
+            await expect(sessions.hold(claims, 0.1)).resolves.toBeDefined();
+        });
+
+        it('shares usage between managers using the same store', async () => {
+            const store = new MemorySessionStore();
+            const { claims } = await issue(new SessionManager(wallet, {}, store), 1, 1);
+            await new SessionManager(wallet, {}, store).hold(claims, 0.1);
+
+            await expect(new SessionManager(wallet, {}, store).hold(claims, 0.1)).rejects.toThrow(
+                SessionExhaustedError
+            );
+        });
+    });
+});
+
+describe('FileSessionStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'x402-sessions-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('keeps usage across restarts', async () => {
+        const wallet = new KeypairSigner(Keypair.generate());
+        const path = join(dir, 'sessions.json');
+        const sessions = new SessionManager(wallet, {}, new FileSessionStore(path));
+        const { claims } = await issue(sessions, 1, 1);
+        await sessions.hold(claims, 0.1);
+
+        const restarted = new SessionManager(wallet, {}, new FileSessionStore(path));
+
+        await expect(restarted.hold(claims, 0.1)).rejects.toThrow(SessionExhaustedError);
+    });
+});
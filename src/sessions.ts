@@ -0,0 +1,212 @@
+import { Chain } from '@x402apis/protocol';
+import { randomBytes } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import nacl from 'tweetnacl';
+import { FundsHold, roundAmount } from './balances';
+import { InvalidSessionError, SessionExhaustedError } from './errors';
+import { SessionClaims, SessionConfig, SessionStore, SessionUsage, Signer } from './types';
+import { writeFileAtomic } from './utils';
+
+/**
+ * In-memory session usage. Usage is per process and lost on restart.
+ */
+export class MemorySessionStore implements SessionStore {
+    protected usage = new Map<string, SessionUsage & { expiresAt: number }>();
+
+    async reserve(claims: SessionClaims, calls: number, amount: number): Promise<SessionUsage | undefined> {
+        this.prune();
+
+        const usage = this.entry(claims);
+        if (usage.calls + calls > claims.maxCalls || roundAmount(usage.spent + amount) > claims.budget) {
+            return undefined;
+        }
+
+        usage.calls += calls;
+        usage.spent = roundAmount(usage.spent + amount);
+        this.usage.set(claims.sid, usage);
+        this.persist();
+        return { calls: usage.calls, spent: usage.spent };
+    }
+
+    async adjust(
+        claims: SessionClaims,
+        calls: number,
+        amount: number
+    ): Promise<{ added: number; usage: SessionUsage }> {
+        const usage = this.entry(claims);
+        const added = roundAmount(Math.min(amount, claims.budget - usage.spent));
+
+        usage.calls = Math.max(0, usage.calls + calls);
+        usage.spent = roundAmount(usage.spent + added);
+        this.usage.set(claims.sid, usage);
+        this.persist();
+        return { added, usage: { calls: usage.calls, spent: usage.spent } };
+    }
+
+    /**
+     * Hook for subclasses that write usage to durable storage
+     */
+    protected persist(): void {
+        // Nothing to do in memory
+    }
+
+    private entry(claims: SessionClaims): SessionUsage & { expiresAt: number } {
+        return this.usage.get(claims.sid) ?? { calls: 0, spent: 0, expiresAt: claims.exp * 1000 };
+    }
+
+    private prune(): void {
+        const now = Date.now();
+        for (const [sid, usage] of this.usage) {
+            if (usage.expiresAt <= now) {
+                this.usage.delete(sid);
+            }
+        }
+    }
+}
+
+/**
+ * Session usage backed by a JSON file, rewritten atomically on every change.
+ * Keeps a restart from handing sessions their allowance back.
+ */
+export class FileSessionStore extends MemorySessionStore {
+    private path: string;
+
+    constructor(path: string) {
+        super();
+        this.path = path;
+
+        if (existsSync(path)) {
+            try {
+                const usage: Record<string, SessionUsage & { expiresAt: number }> = JSON.parse(
+                    readFileSync(path, 'utf-8')
+                );
+                this.usage = new Map(Object.entries(usage));
+            } catch (error) {
+                throw new Error(`Failed to load session usage from ${path}: ${error}`);
+            }
+        }
+    }
+
+    protected persist(): void {
+        writeFileAtomic(this.path, JSON.stringify(Object.fromEntries(this.usage), null, 2));
+    }
+}
+
+/**
+ * Issues and meters payment sessions.
+ *
+ * A session token is `<base64url claims>.<base64url ed25519 signature>`, signed
+ * with the provider wallet, so any node with the same wallet address can check it
+ * without RPC calls. Usage is metered in a `SessionStore`, per node by default.
+ */
+export class SessionManager {
+    private wallet: Signer;
+    private ttl: number;
+    private maxCalls: number;
+    private store: SessionStore;
+
+    constructor(wallet: Signer, config: SessionConfig = {}, store: SessionStore = new MemorySessionStore()) {
+        this.wallet = wallet;
+        this.ttl = config.ttl ?? 3600;
+        this.maxCalls = config.maxCalls ?? 1000;
+        this.store = store;
+    }
+
+    /**
+     * Issue a session funded by a verified payment
+     */
+    async issue(options: {
+        payer: string;
+        chain: Chain;
+        budget: number;
+        maxCalls?: number;
+        apis?: string[];
+    }): Promise<{ token: string; claims: SessionClaims }> {
+        const now = Math.floor(Date.now() / 1000);
+        const claims: SessionClaims = {
+            sid: randomBytes(16).toString('hex'),
+            iss: this.wallet.publicKey.toBase58(),
+            sub: options.payer,
+            chain: options.chain,
+            iat: now,
+            exp: now + this.ttl,
+            budget: options.budget,
+            maxCalls: Math.min(options.maxCalls ?? this.maxCalls, this.maxCalls),
+            ...(options.apis && { apis: options.apis }),
+        };
+
+        const payload = Buffer.from(JSON.stringify(claims));
+        const signature = await this.wallet.signMessage(payload);
+        const token = `${payload.toString('base64url')}.${Buffer.from(signature).toString('base64url')}`;
+
+        return { token, claims };
+    }
+
+    /**
+     * Verify a session token's signature and expiry.
+     * Throws InvalidSessionError if it was not issued by this provider or has expired.
+     */
+    verify(token: string): SessionClaims {
+        const [encodedPayload, encodedSignature] = token.split('.');
+        if (!encodedPayload || !encodedSignature) {
+            throw new InvalidSessionError('Malformed session token');
+        }
+
+        const payload = Buffer.from(encodedPayload, 'base64url');
+        const signature = Buffer.from(encodedSignature, 'base64url');
+        if (!nacl.sign.detached.verify(payload, signature, this.wallet.publicKey.toBytes())) {
+            throw new InvalidSessionError('Invalid session signature');
+        }
+
+        let claims: SessionClaims;
+        try {
+            claims = JSON.parse(payload.toString('utf-8'));
+        } catch {
+            throw new InvalidSessionError('Malformed session token');
+        }
+
+        if (claims.iss !== this.wallet.publicKey.toBase58() || claims.exp * 1000 <= Date.now()) {
+            throw new InvalidSessionError('Session expired');
+        }
+
+        return claims;
+    }
+
+    /**
+     * Reserve calls and their upfront price against a session
+     */
+    async hold(claims: SessionClaims, price: number, calls = 1): Promise<FundsHold> {
+        if (!(await this.store.reserve(claims, calls, price))) {
+            throw new SessionExhaustedError(claims.sid);
+        }
+
+        const store = this.store;
+        const remaining = (usage: SessionUsage) => ({
+            callsRemaining: claims.maxCalls - usage.calls,
+            budgetRemaining: roundAmount(claims.budget - usage.spent),
+        });
+
+        return {
+            held: 0,
+
+            async settle(cost: number) {
+                // Draw the difference from what's left of the budget
+                const { added, usage } = await store.adjust(claims, 0, cost - price);
+                return { charged: roundAmount(price + added), session: remaining(usage) };
+            },
+
+            async release() {
+                await store.adjust(claims, -calls, -price);
+            },
+        };
+    }
+}
+
+/**
+ * Check whether an X-Payment value is a session token rather than a transaction signature.
+ * Base58 signatures never contain a dot.
+ */
+export function isSessionToken(value: string): boolean {
+    return value.includes('.');
+}
+
@@ -0,0 +1,296 @@
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { AddressInfo } from 'net';
+import { Server, createServer } from 'http';
+import {
+    InsufficientPaymentError,
+    MalformedPaymentError,
+    MemoMismatchError,
+    MintNotAcceptedError,
+    NoTransferError,
+    PaymentExpiredError,
+    RecipientMismatchError,
+    TransactionFailedError,
+    TransactionNotFoundError,
+} from './errors';
+import { silentLogger } from './logger';
+import { SolanaVerifier, USDC_MINT } from './solana-verifier';
+
+const MEMO_PROGRAM_ID = 'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr';
+const SIGNATURE = '5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW';
+
+type RPCHandler = (method: string, params: any[]) => unknown;
+
+/**
+ * A JSON-RPC endpoint answering with canned results
+ */
+function startRPC(handler: RPCHandler): Promise<Server> {
+    const server = createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+            const { id, method, params } = JSON.parse(body);
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ jsonrpc: '2.0', id, result: handler(method, params) ?? null }));
+        });
+    });
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+/**
+ * A parsed transaction as returned by `getTransaction` with `jsonParsed` encoding
+ */
+function parsedTransaction(options: {
+    destination: PublicKey;
+    owner?: string;
+    amount?: string;
+    mint?: string;
+    decimals?: number;
+    memo?: string;
+    err?: unknown;
+    transfer?: boolean;
+    blockTime?: number | null;
+}) {
+    const authority = Keypair.generate().publicKey.toBase58();
+    const source = Keypair.generate().publicKey.toBase58();
+    const mint = options.mint ?? USDC_MINT.toBase58();
+    const decimals = options.decimals ?? 6;
+    const accountKeys = [authority, source, options.destination.toBase58(), mint, TOKEN_PROGRAM_ID.toBase58()];
+
+    const instructions: unknown[] = [];
+    if (options.transfer !== false) {
+        instructions.push({
+            program: 'spl-token',
+            programId: TOKEN_PROGRAM_ID.toBase58(),
+            parsed: {
+                type: 'transferChecked',
+                info: {
+                    authority,
+                    source,
+                    destination: options.destination.toBase58(),
+                    mint,
+                    tokenAmount: {
+                        amount: options.amount ?? '100000',
+                        decimals,
+                        uiAmount: null,
+                        uiAmountString: '',
+                    },
+                },
+            },
+        });
+    }
+    if (options.memo) {
+        instructions.push({ program: 'spl-memo', programId: MEMO_PROGRAM_ID, parsed: options.memo });
+    }
+
+    return {
+        slot: 1,
+        blockTime: options.blockTime === undefined ? Math.floor(Date.now() / 1000) : options.blockTime,
+        transaction: {
+            signatures: [SIGNATURE],
+            message: {
+                accountKeys: accountKeys.map((pubkey, index) => ({
+                    pubkey,
+                    signer: index === 0,
+                    writable: index < 3,
+                    source: 'transaction',
+                })),
+                instructions,
+                recentBlockhash: Keypair.generate().publicKey.toBase58(),
+            },
+        },
+        meta: {
+            err: options.err ?? null,
+            fee: 5000,
+            innerInstructions: [],
+            preBalances: accountKeys.map(() => 0),
+            postBalances: accountKeys.map(() => 0),
+            preTokenBalances: [],
+            postTokenBalances: options.owner
+                ? [
+                      {
+                          accountIndex: 2,
+                          mint,
+                          owner: options.owner,
+                          uiTokenAmount: { amount: '0', decimals, uiAmount: null },
+                      },
+                  ]
+                : [],
+        },
+    };
+}
+
+describe('SolanaVerifier', () => {
+    const recipient = Keypair.generate().publicKey;
+    const recipientATA = getAssociatedTokenAddressSync(USDC_MINT, recipient);
+    let rpc: Server;
+    let respond: RPCHandler;
+    let verifier: SolanaVerifier;
+
+    beforeAll(async () => {
+        rpc = await startRPC((method, params) => respond(method, params));
+        verifier = new SolanaVerifier(recipient, {
+            rpcEndpoint: `http://127.0.0.1:${(rpc.address() as AddressInfo).port}`,
+        });
+        verifier.instrument({ logger: silentLogger, observeRPC: () => undefined });
+    });
+
+    afterAll(done => {
+        verifier.close();
+        rpc.close(done);
+    });
+
+    const withTransaction = (transaction: unknown) => {
+        respond = method => (method === 'getTransaction' ? transaction : null);
+    };
+
+    it('verifies a transfer to an account owned by the recipient', async () => {
+        withTransaction(parsedTransaction({ destination: recipientATA, owner: recipient.toBase58() }));
+
+        const payment = await verifier.verify(SIGNATURE, { api: 'test.echo', price: 0.1 });
+
+        expect(payment).toMatchObject({ amount: 0.1, asset: USDC_MINT.toBase58(), reference: SIGNATURE });
+    });
+
+    it('looks up the owner of a destination missing from the token balances', async () => {
+        const transaction = parsedTransaction({ destination: recipientATA });
+        respond = (method, params) => {
+            if (method === 'getTransaction') {
+                return transaction;
+            }
+            if (method === 'getAccountInfo' && params[0] === recipientATA.toBase58()) {
+                return {
+                    context: { slot: 1 },
+                    value: {
+                        data: {
+                            program: 'spl-token',
+                            parsed: { type: 'account', info: { owner: recipient.toBase58() } },
+                            space: 165,
+                        },
+                        executable: false,
+                        lamports: 2039280,
+                        owner: TOKEN_PROGRAM_ID.toBase58(),
+                        rentEpoch: 0,
+                    },
+                };
+            }
+        };
+
+        await expect(verifier.verify(SIGNATURE, { api: 'test.echo', price: 0.1 })).resolves.toMatchObject({
+            amount: 0.1,
+        });
+    });
+
+    it('rejects an empty proof', async () => {
+        await expect(verifier.verify('', { api: 'test.echo', price: 0.1 })).rejects.toThrow(MalformedPaymentError);
+    });
+
+    it('rejects unknown transactions', async () => {
+        withTransaction(null);
+
+        await expect(verifier.verify(SIGNATURE, { api: 'test.echo', price: 0.1 })).rejects.toThrow(
+            TransactionNotFoundError
+        );
+    });
+
+    it('rejects failed transactions', async () => {
+        withTransaction(
+            parsedTransaction({
+                destination: recipientATA,
+                owner: recipient.toBase58(),
+                err: { InstructionError: [0, 'Custom'] },
+            })
+        );
+
+        await expect(verifier.verify(SIGNATURE, { api: 'test.echo', price: 0.1 })).rejects.toThrow(
+            TransactionFailedError
+        );
+    });
+
+    it('rejects transactions without a token transfer', async () => {
+        withTransaction(parsedTransaction({ destination: recipientATA, owner: recipient.toBase58(), transfer: false }));
+
+        await expect(verifier.verify(SIGNATURE, { api: 'test.echo', price: 0.1 })).rejects.toThrow(NoTransferError);
+    });
+
+    it('rejects transfers to someone else', async () => {
+        const other = Keypair.generate().publicKey;
+        withTransaction(
+            parsedTransaction({
+                destination: getAssociatedTokenAddressSync(USDC_MINT, other),
+                owner: other.toBase58(),
+            })
+        );
+
+        await expect(verifier.verify(SIGNATURE, { api: 'test.echo', price: 0.1 })).rejects.toThrow(
+            RecipientMismatchError
+        );
+    });
+
+    it('rejects tokens that are not accepted', async () => {
+        const mint = Keypair.generate().publicKey;
+        withTransaction(
+            parsedTransaction({
+                destination: getAssociatedTokenAddressSync(mint, recipient),
+                owner: recipient.toBase58(),
+                mint: mint.toBase58(),
+            })
+        );
+
+        await expect(verifier.verify(SIGNATURE, { api: 'test.echo', price: 0.1 })).rejects.toThrow(
+            MintNotAcceptedError
+        );
+    });
+
+    it('rejects accepted tokens sent with the wrong decimals', async () => {
+        withTransaction(parsedTransaction({ destination: recipientATA, owner: recipient.toBase58(), decimals: 9 }));
+
+        await expect(verifier.verify(SIGNATURE, { api: 'test.echo', price: 0.1 })).rejects.toThrow(
+            MintNotAcceptedError
+        );
+    });
+
+    it('rejects payments below the price', async () => {
+        withTransaction(parsedTransaction({ destination: recipientATA, owner: recipient.toBase58(), amount: '99999' }));
+
+        await expect(verifier.verify(SIGNATURE, { api: 'test.echo', price: 0.1 })).rejects.toThrow(
+            InsufficientPaymentError
+        );
+    });
+
+    it('rejects transactions older than the maximum age', async () => {
+        const blockTime = Math.floor(Date.now() / 1000) - 301;
+        withTransaction(parsedTransaction({ destination: recipientATA, owner: recipient.toBase58(), blockTime }));
+
+        await expect(verifier.verify(SIGNATURE, { api: 'test.echo', price: 0.1, maxAge: 300 })).rejects.toThrow(
+            PaymentExpiredError
+        );
+        await expect(verifier.verify(SIGNATURE, { api: 'test.echo', price: 0.1, maxAge: 600 })).resolves.toBeDefined();
+    });
+
+    it('rejects transactions of unknown age when a maximum age is set', async () => {
+        withTransaction(parsedTransaction({ destination: recipientATA, owner: recipient.toBase58(), blockTime: null }));
+
+        await expect(verifier.verify(SIGNATURE, { api: 'test.echo', price: 0.1, maxAge: 300 })).rejects.toThrow(
+            PaymentExpiredError
+        );
+    });
+
+    it('requires a memo with an issued nonce when asked to', async () => {
+        const consumeNonce = (nonce: string) => nonce === 'issued-nonce';
+
+        withTransaction(
+            parsedTransaction({ destination: recipientATA, owner: recipient.toBase58(), memo: 'other-nonce' })
+        );
+        await expect(verifier.verify(SIGNATURE, { api: 'test.echo', price: 0.1, consumeNonce })).rejects.toThrow(
+            MemoMismatchError
+        );
+
+        withTransaction(
+            parsedTransaction({ destination: recipientATA, owner: recipient.toBase58(), memo: 'issued-nonce' })
+        );
+        await expect(
+            verifier.verify(SIGNATURE, { api: 'test.echo', price: 0.1, consumeNonce })
+        ).resolves.toMatchObject({ amount: 0.1 });
+    });
+});
@@ -0,0 +1,309 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { Chain, CHAIN_CONFIGS } from '@x402apis/protocol';
+import {
+    InsufficientPaymentError,
+    MalformedPaymentError,
+    MemoMismatchError,
+    MintNotAcceptedError,
+    NoTransferError,
+    PaymentExpiredError,
+    RecipientMismatchError,
+    TransactionFailedError,
+    TransactionNotFoundError,
+} from './errors';
+import { defaultLogger } from './logger';
+import { toAtomicAmount } from './payment-requirements';
+import {
+    AcceptedMint,
+    ChainVerifier,
+    Logger,
+    PaymentExpectation,
+    PaymentOffer,
+    PaymentRequirement,
+    VerifiedPayment,
+    VerifierInstrumentation,
+} from './types';
+import { isRecent } from './utils';
+
+// Mainnet USDC Mint Address (6 decimals)
+export const USDC_MINT = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+
+/** Tokens accepted when none are configured */
+export const DEFAULT_ACCEPTED_MINTS: AcceptedMint[] = [
+    { mint: USDC_MINT.toBase58(), decimals: 6, symbol: 'USDC', program: 'spl-token' },
+];
+
+// SPL Memo program IDs (v2 and legacy v1)
+const MEMO_PROGRAM_IDS = ['MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr', 'Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo'];
+
+/**
+ * Solana verifier options
+ */
+export interface SolanaVerifierOptions {
+    /** RPC endpoint (default: the protocol's Solana endpoint) */
+    rpcEndpoint?: string;
+
+    /** Accepted tokens (default: mainnet USDC) */
+    mints?: AcceptedMint[];
+}
+
+/**
+ * Verifies SPL Token payments on Solana.
+ *
+ * Sums every `transferChecked` (top-level and inner, SPL Token and Token-2022)
+ * into token accounts owned by the recipient, per accepted mint.
+ */
+export class SolanaVerifier implements ChainVerifier {
+    readonly chain: Chain = 'solana';
+    private recipient: PublicKey;
+    private mints: AcceptedMint[];
+    private connection: Connection;
+    private rpcEndpoint: string;
+    private logger: Logger = defaultLogger;
+    private observeRPC: VerifierInstrumentation['observeRPC'] = () => undefined;
+
+    constructor(recipient: PublicKey, options: SolanaVerifierOptions = {}) {
+        this.recipient = recipient;
+        this.mints = options.mints ?? DEFAULT_ACCEPTED_MINTS;
+        this.rpcEndpoint = options.rpcEndpoint ?? CHAIN_CONFIGS.solana.rpcEndpoint;
+        this.connection = new Connection(this.rpcEndpoint);
+    }
+
+    instrument({ logger, observeRPC }: VerifierInstrumentation): void {
+        this.logger = logger;
+        this.observeRPC = observeRPC;
+        this.logger.info('Using Solana RPC', { rpc: this.rpcEndpoint });
+    }
+
+    requirements(offer: PaymentOffer): PaymentRequirement[] {
+        return this.mints.map(accepted => ({
+            scheme: 'exact',
+            network: this.chain,
+            maxAmountRequired: toAtomicAmount(offer.price, accepted.decimals),
+            resource: offer.resource,
+            description: `Payment for ${offer.api}`,
+            mimeType: 'application/json',
+            payTo: getAssociatedTokenAddressSync(
+                new PublicKey(accepted.mint),
+                this.recipient,
+                false,
+                getTokenProgramId(accepted)
+            ).toBase58(),
+            maxTimeoutSeconds: offer.timeoutSeconds,
+            asset: accepted.mint,
+            extra: {
+                api: offer.api,
+                price: offer.price,
+                decimals: accepted.decimals,
+                owner: this.recipient.toBase58(),
+                nonce: offer.nonce,
+                expiresAt: offer.expiresAt,
+            },
+        }));
+    }
+
+    async verify(transactionSignature: string, expected: PaymentExpectation): Promise<VerifiedPayment> {
+        if (!transactionSignature || typeof transactionSignature !== 'string') {
+            throw new MalformedPaymentError('Invalid transaction signature: empty or not a string.');
+        }
+
+        this.logger.debug('Verifying transaction', { signature: transactionSignature });
+
+        // 1. Fetch the transaction details from the blockchain.
+        const tx = await this.timed('getParsedTransaction', () =>
+            this.connection.getParsedTransaction(transactionSignature, {
+                maxSupportedTransactionVersion: 0,
+                commitment: 'confirmed',
+            })
+        );
+
+        // 2. Check if the transaction exists and was successful.
+        if (!tx) {
+            throw new TransactionNotFoundError(transactionSignature);
+        }
+        if (tx.meta && tx.meta.err) {
+            throw new TransactionFailedError(transactionSignature);
+        }
+        // An old transfer may have been claimed before a ledger that has since forgotten it
+        if (expected.maxAge !== undefined && !isRecent(tx.blockTime, expected.maxAge)) {
+            throw new PaymentExpiredError(transactionSignature);
+        }
+
+        // 3. Collect every parsed instruction, including CPIs.
+        const instructions: any[] = [
+            ...tx.transaction.message.instructions,
+            ...(tx.meta?.innerInstructions ?? []).flatMap(inner => inner.instructions),
+        ];
+
+        const tokenProgramIds = [TOKEN_PROGRAM_ID.toBase58(), TOKEN_2022_PROGRAM_ID.toBase58()];
+        const transfers = instructions.filter(
+            ix =>
+                'parsed' in ix &&
+                tokenProgramIds.includes(ix.programId.toBase58()) &&
+                ix.parsed?.type === 'transferChecked'
+        );
+
+        if (transfers.length === 0) {
+            throw new NoTransferError();
+        }
+
+        // 4. Resolve destination owners from the post-transaction balances.
+        const accountKeys = tx.transaction.message.accountKeys.map(key => key.pubkey.toBase58());
+        const owners = new Map<string, string>();
+        for (const balance of tx.meta?.postTokenBalances ?? []) {
+            if (balance.owner) {
+                owners.set(accountKeys[balance.accountIndex], balance.owner);
+            }
+        }
+
+        const recipient = this.recipient.toBase58();
+        const totals = new Map<string, { amount: bigint; from: string }>();
+        let rejectedMint: string | undefined;
+
+        for (const ix of transfers) {
+            const { destination, mint, tokenAmount } = ix.parsed.info;
+            const authority: string = ix.parsed.info.authority ?? ix.parsed.info.multisigAuthority;
+
+            const owner = owners.get(destination) ?? (await this.fetchTokenAccountOwner(destination));
+            if (owner !== recipient) {
+                continue;
+            }
+
+            // 5. Only count accepted mints, under the program and decimals they were configured with.
+            const accepted = this.mints.find(m => m.mint === mint);
+            if (
+                !accepted ||
+                getTokenProgramId(accepted).toBase58() !== ix.programId.toBase58() ||
+                tokenAmount?.decimals !== accepted.decimals
+            ) {
+                rejectedMint = mint;
+                continue;
+            }
+
+            const total = totals.get(mint);
+            totals.set(mint, {
+                amount: (total?.amount ?? BigInt(0)) + BigInt(tokenAmount.amount),
+                from: total?.from ?? authority,
+            });
+        }
+
+        if (totals.size === 0) {
+            if (rejectedMint) {
+                throw new MintNotAcceptedError(rejectedMint);
+            }
+            throw new RecipientMismatchError(recipient);
+        }
+
+        // 6. Verify the amount paid, in the largest accepted payment.
+        const [mint, total] = Array.from(totals.entries()).sort(([, a], [, b]) => (a.amount > b.amount ? -1 : 1))[0];
+        const accepted = this.mints.find(m => m.mint === mint)!;
+        const amountPaid = Number(total.amount) / 10 ** accepted.decimals;
+
+        if (total.amount < BigInt(toAtomicAmount(expected.price, accepted.decimals))) {
+            throw new InsufficientPaymentError(expected.price, amountPaid);
+        }
+
+        // 7. Tie the payment to a challenge we issued.
+        if (expected.consumeNonce) {
+            const memos = instructions
+                .filter(ix => MEMO_PROGRAM_IDS.includes(ix.programId.toBase58()) && typeof ix.parsed === 'string')
+                .map(ix => ix.parsed as string);
+
+            if (!memos.some(memo => expected.consumeNonce!(memo.trim()))) {
+                throw new MemoMismatchError();
+            }
+        }
+
+        this.logger.info('Payment verified', {
+            signature: transactionSignature,
+            amount: amountPaid,
+            mint,
+            symbol: accepted.symbol,
+            from: total.from,
+        });
+
+        return {
+            amount: amountPaid,
+            from: total.from,
+            asset: mint,
+            reference: transactionSignature,
+        };
+    }
+
+    close(): void {
+        closeConnection(this.connection);
+    }
+
+    /**
+     * Look up the owner of a token account that isn't in the transaction's balances
+     */
+    private async fetchTokenAccountOwner(account: string): Promise<string | undefined> {
+        const info = await this.timed('getParsedAccountInfo', () =>
+            this.connection.getParsedAccountInfo(new PublicKey(account))
+        );
+        return (info.value?.data as any)?.parsed?.info?.owner;
+    }
+
+    /**
+     * Run an RPC call and report its duration
+     */
+    private async timed<T>(method: string, call: () => Promise<T>): Promise<T> {
+        const start = Date.now();
+        try {
+            const result = await call();
+            this.observeRPC(method, (Date.now() - start) / 1000, true);
+            return result;
+        } catch (error) {
+            this.observeRPC(method, (Date.now() - start) / 1000, false);
+            throw error;
+        }
+    }
+}
+
+/**
+ * Token program that owns an accepted mint
+ */
+export function getTokenProgramId(accepted: AcceptedMint): PublicKey {
+    return accepted.program === 'token-2022' ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+}
+
+/**
+ * Close a connection's subscription websocket, if open.
+ * HTTP requests need no cleanup, but web3.js keeps the websocket open for a while after
+ * confirmations and exposes no way to close it.
+ *
+ * This reaches into private fields of web3.js 1.x, so it does nothing on other major
+ * versions or if the fields change shape; the socket then closes on its idle timeout.
+ */
+export function closeConnection(connection: Connection): void {
+    if (web3MajorVersion() !== 1) {
+        return;
+    }
+
+    const internal = connection as unknown as {
+        _rpcWebSocketIdleTimeout?: ReturnType<typeof setTimeout> | null;
+        _rpcWebSocketConnected?: boolean;
+        _rpcWebSocket?: { close?: () => void };
+    };
+    if (internal._rpcWebSocketIdleTimeout) {
+        clearTimeout(internal._rpcWebSocketIdleTimeout);
+        internal._rpcWebSocketIdleTimeout = null;
+    }
+    if (internal._rpcWebSocketConnected === true && typeof internal._rpcWebSocket?.close === 'function') {
+        internal._rpcWebSocket.close();
+    }
+}
+
+let installedWeb3Major: number | undefined;
+
+function web3MajorVersion(): number | undefined {
+    if (installedWeb3Major === undefined) {
+        try {
+            installedWeb3Major = Number(require('@solana/web3.js/package.json').version.split('.')[0]);
+        } catch {
+            installedWeb3Major = NaN;
+        }
+    }
+    return installedWeb3Major;
+}
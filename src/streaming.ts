@@ -0,0 +1,121 @@
+import { Response } from 'express';
+import { StreamMode } from './types';
+
+/**
+ * Summary sent once a stream has completed
+ */
+export interface StreamTrailer {
+    requestId: string;
+    latency: number;
+    cost: number;
+    /** Payer's remaining prepaid balance */
+    balance?: number;
+}
+
+/**
+ * Check whether a handler result can be streamed
+ */
+export function isStreamSource(value: unknown): value is AsyncIterable<unknown> {
+    return !!value && typeof (value as any)[Symbol.asyncIterator] === 'function';
+}
+
+/**
+ * Forward a handler's stream to the client.
+ *
+ * SSE streams send each chunk as a `data:` event and finish with a `done` event
+ * carrying the trailer, or an `error` event if the source fails. Binary streams
+ * are sent chunked with the trailer as HTTP trailers; a failing source destroys
+ * the response so the client sees an incomplete body rather than a clean end.
+ *
+ * Rejects with the source's error after the client has been told.
+ */
+export async function pipeStream(
+    res: Response,
+    source: AsyncIterable<unknown>,
+    options: {
+        mode: StreamMode;
+        contentType?: string;
+        signal: AbortSignal;
+        requestId: string;
+        /** Keep the chunks that were sent and pass them to `trailer` */
+        collect?: boolean;
+        /** Settle the call and build the trailer once the source is exhausted */
+        trailer: (chunks: unknown[]) => Promise<StreamTrailer>;
+    }
+): Promise<void> {
+    const { mode, contentType, signal, requestId, collect = false, trailer } = options;
+    const chunks: unknown[] = [];
+
+    if (mode === 'sse') {
+        res.status(200);
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('Connection', 'keep-alive');
+    } else {
+        res.status(200);
+        res.setHeader('Content-Type', contentType ?? 'application/octet-stream');
+        res.setHeader('Trailer', 'X-Request-Id, X-Latency, X-Cost, X-Balance');
+    }
+    res.flushHeaders();
+
+    let summary: StreamTrailer;
+    try {
+        for await (const chunk of source) {
+            // Leaving the loop calls the source's return(), which stops upstream work
+            if (signal.aborted) {
+                throw signal.reason;
+            }
+
+            if (collect) {
+                chunks.push(chunk);
+            }
+
+            if (mode === 'sse') {
+                res.write(formatEvent(undefined, chunk));
+            } else {
+                res.write(typeof chunk === 'string' || chunk instanceof Uint8Array ? chunk : JSON.stringify(chunk));
+            }
+        }
+
+        if (signal.aborted) {
+            throw signal.reason;
+        }
+
+        summary = await trailer(chunks);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Stream failed';
+
+        if (mode === 'sse') {
+            res.end(formatEvent('error', { error: message, requestId }));
+        } else {
+            res.destroy(error instanceof Error ? error : new Error(message));
+        }
+        throw error;
+    }
+
+    if (mode === 'sse') {
+        res.end(formatEvent('done', summary));
+    } else {
+        res.addTrailers({
+            'X-Request-Id': summary.requestId,
+            'X-Latency': String(summary.latency),
+            'X-Cost': String(summary.cost),
+            ...(summary.balance !== undefined && { 'X-Balance': String(summary.balance) }),
+        });
+        res.end();
+    }
+}
+
+/**
+ * Format a Server-Sent Event
+ */
+function formatEvent(event: string | undefined, data: unknown): string {
+    const payload =
+        typeof data === 'string'
+            ? data
+            : data instanceof Uint8Array
+              ? Buffer.from(data).toString('utf-8')
+              : JSON.stringify(data);
+    const lines = payload.split('\n').map(line => `data: ${line}`);
+    return `${event ? `event: ${event}\n` : ''}${lines.join('\n')}\n\n`;
+}
@@ -1,13 +1,71 @@
 import { Chain } from '@x402apis/protocol';
+import { PublicKey } from '@solana/web3.js';
 import { Express } from 'express';
 import { Server as HttpServer } from 'http'; // Import with an alias to avoid name conflicts
 
+/**
+ * Signs with the provider wallet's ed25519 key: registry messages, session tokens,
+ * webhooks and refund transactions. Implement it to keep the key in a KMS, HSM or
+ * remote signing service; payments are verified against `publicKey` alone.
+ */
+export interface Signer {
+    /** Earnings address */
+    publicKey: PublicKey;
+
+    /** 64-byte ed25519 signature of the message */
+    signMessage: (message: Uint8Array) => Promise<Uint8Array>;
+}
+
+/**
+ * Secret key in an environment variable, as base58 or a JSON byte array
+ */
+export interface EnvWalletSource {
+    env: string;
+}
+
+/**
+ * Secret key in a keystore file encrypted with a passphrase
+ */
+export interface KeystoreWalletSource {
+    keystore: string;
+
+    /** Passphrase (default: read from `passphraseEnv`) */
+    passphrase?: string;
+
+    /** Env var holding the passphrase (default: 'X402_WALLET_PASSPHRASE') */
+    passphraseEnv?: string;
+}
+
+/**
+ * Where the provider wallet comes from. A string is the path of a plaintext JSON
+ * secret-key file.
+ */
+export type WalletSource = string | EnvWalletSource | KeystoreWalletSource | Signer;
+
+/**
+ * Wallet secret key encrypted with a passphrase: scrypt derives the key for AES-256-GCM.
+ * Binary fields are hex.
+ */
+export interface Keystore {
+    version: 1;
+
+    /** Wallet address, readable without the passphrase */
+    address: string;
+
+    kdf: 'scrypt';
+    kdfParams: { n: number; r: number; p: number; salt: string };
+    cipher: 'aes-256-gcm';
+    iv: string;
+    tag: string;
+    ciphertext: string;
+}
+
 /**
  * Provider server configuration
  */
 export interface ServerConfig {
-    /** Wallet keypair path */
-    wallet: string;
+    /** Provider wallet: a keypair file path, env var, encrypted keystore or external signer */
+    wallet: WalletSource;
 
     /** Server port */
     port?: number;
@@ -18,50 +76,706 @@ export interface ServerConfig {
     /** Registry URL */
     registry?: string;
 
+    /** Registry retry and start-up behaviour */
+    registryOptions?: RegistryOptions;
+
     /** Supported chains */
     chains?: Chain[];
 
     /** Default price per request */
     defaultPrice?: number;
 
-    /** Enable logging */
+    /**
+     * Enable logging
+     * @deprecated Use `logger`; `false` is the same as `logger: silentLogger`
+     */
     logging?: boolean;
+
+    /** Structured logger (default: JSON lines on stdout at `info`) */
+    logger?: Logger;
+
+    /** Serve Prometheus metrics (disabled when omitted) */
+    prometheus?: PrometheusConfig;
+
+    /** Ledger of consumed payment signatures (default: in-memory) */
+    ledger?: PaymentLedger;
+
+    /** Payment verification settings */
+    payment?: PaymentConfig;
+
+    /** Store for rate-limit buckets, shared across replicas (default: in-memory) */
+    rateLimitStore?: RateLimitStore;
+
+    /** Prepaid payer balances; deposits, overpayment credit and X-Payer-Auth are off without one */
+    balances?: BalanceStore;
+
+    /** Store for cached API results (default: in-memory) */
+    cacheStore?: CacheStore;
+
+    /** Limits and discount for `POST /batch` */
+    batch?: BatchConfig;
+
+    /** Worker queue and retention for async APIs */
+    jobs?: JobConfig;
+
+    /** Payment session settings */
+    sessions?: SessionConfig;
+
+    /** Session usage, shared across replicas or kept across restarts (default: in-memory) */
+    sessionStore?: SessionStore;
+
+    /** Verifiers for chains other than Solana, e.g. `EvmVerifier` */
+    verifiers?: ChainVerifier[];
+
+    /** Refund paid calls that fail or time out (disabled when omitted) */
+    refunds?: RefundPolicy;
+
+    /** Window in ms for latency, error and earnings metrics (default: 300000) */
+    metricsWindow?: number;
+
+    /** Ledger of paid calls for accounting (default: in-memory) */
+    callLedger?: CallLedger;
+
+    /** Bearer token for the /admin endpoints */
+    adminToken?: string;
+
+    /** Wallets allowed to call the /admin endpoints with a signed X-Admin-Auth header */
+    adminWallets?: string[];
+
+    /** Graceful shutdown settings */
+    shutdown?: ShutdownConfig;
+}
+
+/**
+ * Graceful shutdown settings
+ */
+export interface ShutdownConfig {
+    /** How long `stop()` waits for in-flight calls, in ms (default: 30000) */
+    timeout?: number;
+
+    /** Call `stop()` on SIGINT and SIGTERM, then exit (default: false) */
+    handleSignals?: boolean;
+}
+
+/**
+ * Batch call settings
+ */
+export interface BatchConfig {
+    /** Most items in one batch (default: 100) */
+    maxItems?: number;
+
+    /** Items run at the same time (default: 5) */
+    concurrency?: number;
+
+    /** Fraction taken off the price of each item, e.g. 0.1 for 10% (default: 0) */
+    discount?: number;
+}
+
+/**
+ * Async job settings
+ */
+export interface JobConfig {
+    /** JSON file holding job state (default: in-memory) */
+    path?: string;
+
+    /** Jobs run at the same time (default: 2) */
+    concurrency?: number;
+
+    /** Jobs waiting to run before new async calls get 503 (default: 100) */
+    maxQueue?: number;
+
+    /** Seconds a finished job and its result are kept (default: 86400) */
+    retention?: number;
+
+    /** Webhook delivery attempts (default: 3) */
+    webhookAttempts?: number;
+
+    /** Timeout for each webhook delivery attempt in ms (default: 10000) */
+    webhookTimeout?: number;
+
+    /**
+     * Hosts callback URLs may point at. When set, only these are accepted, private
+     * addresses included (default: any host that isn't a private address or localhost)
+     */
+    callbackHosts?: string[];
+}
+
+/**
+ * Lifecycle state of an async job
+ */
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * An async call, as returned by `GET /jobs/:id` and sent to the callback URL
+ */
+export interface JobRecord {
+    id: string;
+    api: string;
+    requestId: string;
+    status: JobStatus;
+
+    /** Handler result, once succeeded */
+    result?: unknown;
+
+    /** Why the job failed */
+    error?: string;
+
+    /** Amount charged, once succeeded */
+    cost?: number;
+
+    /** URL that receives a signed webhook when the job finishes */
+    callbackUrl?: string;
+
+    /** Webhook delivery state */
+    webhook?: { delivered: boolean; attempts: number; lastError?: string };
+
+    /** Payment used, refunded if the node restarts before the job finishes */
+    paymentSignature?: string;
+
+    /** Payer, chain, asset and amount of that payment, kept so it can be refunded after a restart */
+    payer?: string;
+    chain?: Chain;
+    asset?: string;
+    amount?: number;
+
+    /** Prepaid balance set aside for the job, credited back if the node restarts before it finishes */
+    held?: number;
+
+    createdAt: string;
+    updatedAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+
+    /** ISO timestamp after which a finished job is deleted */
+    expiresAt?: string;
+}
+
+/**
+ * Outcome of one item of a batch
+ */
+export interface BatchItemResult {
+    api: string;
+    status: 'success' | 'error';
+
+    /** Handler result */
+    data?: unknown;
+
+    error?: string;
+
+    /** Status returned by a proxy API's upstream */
+    upstreamStatus?: number;
+
+    /** Amount charged for the item, after the batch discount */
+    cost: number;
+
+    latency: number;
+
+    /** Set for cached APIs */
+    cache?: 'hit' | 'miss';
+}
+
+/**
+ * Prometheus endpoint settings
+ */
+export interface PrometheusConfig {
+    /** Route serving the metrics (default: '/metrics') */
+    path?: string;
+
+    /** Latency histogram buckets in seconds */
+    buckets?: number[];
+}
+
+/**
+ * Registry client settings
+ */
+export interface RegistryOptions {
+    /** Start serving even if the registry is unreachable, registering in the background (default: false) */
+    offlineStart?: boolean;
+
+    /** Attempts per registration before giving up (default: 5) */
+    maxRetries?: number;
+
+    /** First backoff delay in ms (default: 1000) */
+    baseDelay?: number;
+
+    /** Longest backoff delay in ms (default: 60000) */
+    maxDelay?: number;
+
+    /** Time between heartbeats in ms (default: 60000) */
+    heartbeatInterval?: number;
+}
+
+/**
+ * Automatic refund policy
+ */
+export interface RefundPolicy {
+    /** JSON file holding the refund queue (default: in-memory) */
+    path?: string;
+
+    /** Flat fee in USDC kept from each refund (default: 0) */
+    fee?: number;
+
+    /** Attempts before a refund is marked failed (default: 5) */
+    maxAttempts?: number;
+
+    /** Base delay between attempts in ms, doubled after each failure (default: 5000) */
+    retryDelay?: number;
+
+    /** How long an error response waits for the refund to confirm, in ms (default: 10000) */
+    responseWait?: number;
+}
+
+/**
+ * Lifecycle state of a refund
+ */
+export type RefundStatus = 'pending' | 'sent' | 'confirmed' | 'failed';
+
+/**
+ * A refund of a failed paid call
+ */
+export interface RefundRecord {
+    id: string;
+
+    /** Payment being refunded */
+    paymentSignature: string;
+
+    chain: Chain;
+
+    /** Token to refund in */
+    asset: string;
+
+    /** Payer address */
+    to: string;
+
+    /** Amount refunded, after the fee */
+    amount: number;
+
+    /** Fee kept */
+    fee: number;
+
+    api: string;
+    requestId: string;
+
+    /** Why the call failed */
+    reason: string;
+
+    status: RefundStatus;
+    attempts: number;
+
+    /** Refund transaction signature */
+    signature?: string;
+
+    /** Block height after which an unconfirmed refund transaction can no longer land */
+    lastValidBlockHeight?: number;
+
+    lastError?: string;
+
+    /** ISO timestamp of the next retry */
+    nextAttemptAt?: string;
+
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Payment session configuration
+ */
+export interface SessionConfig {
+    /** Session lifetime in seconds (default: 3600) */
+    ttl?: number;
+
+    /** Upper bound on calls per session (default: 1000) */
+    maxCalls?: number;
+}
+
+/**
+ * Claims carried in a signed session token
+ */
+export interface SessionClaims {
+    /** Session ID */
+    sid: string;
+
+    /** Provider wallet that issued the session */
+    iss: string;
+
+    /** Payer wallet */
+    sub: string;
+
+    /** Chain the session was paid on */
+    chain: Chain;
+
+    /** Issued at (unix seconds) */
+    iat: number;
+
+    /** Expires at (unix seconds) */
+    exp: number;
+
+    /** Spend allowance in USDC */
+    budget: number;
+
+    /** Call allowance */
+    maxCalls: number;
+
+    /** APIs the session may call (all when omitted) */
+    apis?: string[];
+}
+
+/**
+ * Calls and spend drawn from a session
+ */
+export interface SessionUsage {
+    calls: number;
+    spent: number;
+}
+
+/**
+ * Storage for session usage
+ */
+export interface SessionStore {
+    /**
+     * Atomically reserve calls and an amount against a session.
+     * Resolves to the new usage, or undefined if that would exceed the session's allowance.
+     */
+    reserve: (claims: SessionClaims, calls: number, amount: number) => Promise<SessionUsage | undefined>;
+
+    /**
+     * Add to a session's usage, or give back what was reserved with negative values.
+     * A positive amount is capped at what's left of the budget; resolves to the amount added.
+     */
+    adjust: (claims: SessionClaims, calls: number, amount: number) => Promise<{ added: number; usage: SessionUsage }>;
+}
+
+/**
+ * Payment verification configuration
+ */
+export interface PaymentConfig {
+    /** Accepted Solana tokens (default: mainnet USDC) */
+    mints?: AcceptedMint[];
+
+    /** Solana RPC endpoint (default: the protocol's endpoint) */
+    solanaRpcEndpoint?: string;
+
+    /** Require a memo carrying a server-issued nonce (default: false) */
+    requireMemo?: boolean;
+
+    /** Seconds a payment challenge and its nonce stay valid (default: 300) */
+    challengeTimeout?: number;
+
+    /**
+     * Seconds after which a payment transaction is too old to pay with (default: `challengeTimeout`).
+     * This bounds what an in-memory payment ledger forgets on restart.
+     */
+    maxPaymentAge?: number;
+}
+
+/**
+ * A token accepted as payment
+ */
+export interface AcceptedMint {
+    /** Mint address */
+    mint: string;
+
+    /** Token decimals */
+    decimals: number;
+
+    /** Display symbol */
+    symbol?: string;
+
+    /** Token program that owns the mint (default: 'spl-token') */
+    program?: 'spl-token' | 'token-2022';
 }
 
 /**
  * API handler function
  */
-export type APIHandler = (params: Record<string, unknown>) => Promise<unknown>;
+export type APIHandler = (params: Record<string, unknown>, context: RequestContext) => Promise<unknown>;
+
+/**
+ * Streaming API handler. Resolves to an async iterable (or a Node stream) of chunks.
+ */
+export type StreamingAPIHandler = (
+    params: Record<string, unknown>,
+    context: RequestContext
+) => Promise<AsyncIterable<unknown>> | AsyncIterable<unknown>;
+
+/**
+ * How a streaming API's output is sent: Server-Sent Events or a chunked binary body
+ */
+export type StreamMode = 'sse' | 'binary';
+
+/**
+ * Computes the real cost of a call in USDC, e.g. from token counts in the result.
+ * Streaming APIs receive the array of chunks that were sent.
+ */
+export type PricingFunction = (params: Record<string, unknown>, result: unknown) => number;
 
 /**
  * API configuration
  */
 export interface APIConfig {
-    /** Price per request in USDC */
+    /** Price per request in USDC (the upfront amount when `pricing` is set) */
     price: number;
 
+    /** Usage-based cost, settled against the payment and prepaid balance after the call */
+    pricing?: PricingFunction;
+
     /** Optional timeout override */
     timeout?: number;
 
-    /** Optional rate limit */
-    rateLimit?: number;
+    /** Optional rate limit (a number is requests per minute for the whole API) */
+    rateLimit?: number | RateLimitConfig;
+
+    /** Calls run at once; further calls wait in a queue (default: unlimited, not for async APIs) */
+    maxConcurrency?: number;
+
+    /** Calls that may wait for a free slot before new ones get 503 (default: 0) */
+    maxQueue?: number;
+
+    /** Longest wait for a free slot in ms before the call gets 503 (default: 10000) */
+    queueTimeout?: number;
+
+    /** Stream the handler's output instead of buffering it */
+    stream?: StreamMode;
+
+    /** Content type of binary streams (default: application/octet-stream) */
+    contentType?: string;
+
+    /** JSON Schema that `params` must match */
+    paramsSchema?: JSONSchema;
+
+    /** JSON Schema the handler's result must match (not checked for streams) */
+    resultSchema?: JSONSchema;
+
+    /** Human-readable description, published to the registry */
+    description?: string;
+
+    /** Run calls as background jobs: `/call` responds 202 with a job ID (not for streams) */
+    async?: boolean;
+
+    /** Serve repeated calls with the same params from a cache (not for streams) */
+    cache?: CacheConfig;
+}
+
+/**
+ * Response cache settings for a deterministic API
+ */
+export interface CacheConfig {
+    /** Seconds a result stays cached */
+    ttl: number;
+
+    /** Most results kept for the API (default: 1000) */
+    maxEntries?: number;
+
+    /** Price of a call answered from the cache (default: the API's price) */
+    price?: number;
+}
+
+/**
+ * Storage for cached API results, keyed by a hash of the canonical params
+ */
+export interface CacheStore {
+    /** Cached result, or undefined if missing or expired */
+    get: (api: string, key: string) => Promise<unknown>;
+
+    /** Cache a result, evicting the API's least recently used results beyond `maxEntries` */
+    set: (api: string, key: string, value: unknown, ttlMs: number, maxEntries: number) => Promise<void>;
+}
+
+/**
+ * A JSON Schema document
+ */
+export type JSONSchema = Record<string, unknown>;
+
+/**
+ * An API that forwards its params to an upstream HTTP endpoint
+ */
+export interface ProxyAPIConfig extends Partial<APIConfig> {
+    /** Upstream URL; `{name}` placeholders are filled from params of that name */
+    upstream: string;
+
+    /** HTTP method (default: 'POST'); GET and DELETE send params as the query string */
+    method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+    /** Static headers sent upstream */
+    headers?: Record<string, string>;
+
+    /**
+     * Secret headers read from the environment when the API is added: an env var name
+     * (`'DEEPGRAM_KEY'`) or a template (`'Bearer ${OPENAI_API_KEY}'`). Their values are
+     * redacted from errors and logs.
+     */
+    secretsFromEnv?: Record<string, string>;
+
+    /** Where each param goes in the upstream body, as dot paths: `{ prompt: 'input.text' }` */
+    paramMapping?: Record<string, string>;
+
+    /** Dot path of the part of the upstream JSON response to return, e.g. 'choices.0.message' */
+    responsePath?: string;
+}
+
+/**
+ * How a balanced API picks a backend: weighted round-robin, or the lowest moving
+ * average latency
+ */
+export type BalanceStrategy = 'round-robin' | 'least-latency';
+
+/**
+ * One backend of a balanced API: a handler, or an upstream proxied like `addProxyAPI`
+ */
+export interface BackendConfig extends Partial<Omit<ProxyAPIConfig, keyof APIConfig>> {
+    /** Backend name, shown in health reports */
+    name: string;
+
+    /** Handler for this backend; without one, `upstream` is proxied */
+    handler?: APIHandler | StreamingAPIHandler;
+
+    /** Share of traffic under round-robin (default: 1) */
+    weight?: number;
+}
+
+/**
+ * Config for an API served by several backends
+ */
+export interface BalancedAPIConfig extends Partial<APIConfig> {
+    backends: BackendConfig[];
+
+    /** Default: 'round-robin' */
+    strategy?: BalanceStrategy;
+
+    /** Other backends to try after a failure (default: all of them) */
+    retries?: number;
+
+    /** Consecutive failures that open a backend's circuit (default: 5) */
+    failureThreshold?: number;
+
+    /** Seconds an open circuit waits before letting a trial call through (default: 30) */
+    cooldown?: number;
+}
+
+/**
+ * Circuit breaker state of a backend: 'open' backends get no traffic
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Health of one backend of a balanced API
+ */
+export interface BackendHealth {
+    name: string;
+    weight: number;
+    state: CircuitState;
+    requests: number;
+    failures: number;
+    consecutiveFailures: number;
+
+    /** Moving average latency of successful calls in ms */
+    averageLatency: number;
+
+    lastError?: string;
+    lastFailureAt?: string;
+}
+
+/**
+ * Load of an API with a concurrency limit
+ */
+export interface APILoad {
+    /** Calls running */
+    active: number;
+
+    /** Calls waiting for a free slot */
+    queued: number;
+
+    maxConcurrency: number;
+    maxQueue: number;
+
+    /** All slots and queue places are taken, so new calls get 503 */
+    saturated: boolean;
+}
+
+/**
+ * Public description of a registered API
+ */
+export interface APIDescriptor {
+    name: string;
+    price: number;
+    description?: string;
+    timeout?: number;
+    stream?: StreamMode;
+    async?: boolean;
+    paramsSchema?: JSONSchema;
+    resultSchema?: JSONSchema;
+}
+
+/**
+ * Token-bucket rate limit for an API
+ */
+export interface RateLimitConfig {
+    /** Requests per window across all payers */
+    requests?: number;
+
+    /** Requests per window for each payer wallet */
+    perPayer?: number;
+
+    /** Window in milliseconds over which buckets refill (default: 60000) */
+    windowMs?: number;
+}
+
+/**
+ * Outcome of taking a token from a bucket
+ */
+export interface RateLimitResult {
+    allowed: boolean;
+
+    /** Tokens left in the bucket */
+    remaining: number;
+
+    /** Milliseconds until a token is available (0 when allowed) */
+    retryAfterMs: number;
+}
+
+/**
+ * Storage for token buckets
+ */
+export interface RateLimitStore {
+    /**
+     * Atomically refill the bucket and take one token from it
+     */
+    take: (key: string, capacity: number, refillPerMs: number) => Promise<RateLimitResult>;
 }
 
 /**
  * Provider server instance
  */
 export interface ProviderServer {
-    /** Add API handler */
-    addAPI: (name: string, handler: APIHandler, config?: APIConfig) => void;
+    /** Add API handler; set `config.stream` to register a streaming handler */
+    addAPI: (name: string, handler: APIHandler | StreamingAPIHandler, config?: Partial<APIConfig>) => void;
+
+    /** Add an API that forwards calls to an upstream HTTP endpoint */
+    addProxyAPI: (name: string, config: ProxyAPIConfig) => void;
 
-    /** Start server */
+    /** Add an API served by several backends, with failover between them */
+    addBalancedAPI: (name: string, config: BalancedAPIConfig) => void;
+
+    /**
+     * Start server; rejects if the port can't be bound or registration fails.
+     * A stopped server can't be started again.
+     */
     start: () => Promise<HttpServer>;
-    /** Stop server */
+    /** Stop taking calls, wait for in-flight ones, flush state and unregister */
     stop: () => Promise<void>;
 
     /** Get server stats */
     getStats: () => ServerStats;
 
+    /** List refunds, optionally by status */
+    getRefunds: (status?: RefundStatus) => Promise<RefundRecord[]>;
+
+    /** Paid calls matching a filter, oldest first */
+    getLedger: (filter?: CallLedgerQuery) => Promise<CallRecord[]>;
+
+    /** Look up an async job that hasn't expired */
+    getJob: (id: string) => JobRecord | undefined;
+
     getExpressApp: () => Express
 }
 
@@ -74,18 +788,58 @@ export interface ServerStats {
     totalEarnings: number;
     averageLatency: number;
     errorRate: number;
+    rateLimited: number;
+
+    /** Recent calls, over the metrics window */
+    metrics: WindowedMetrics;
+
+    /** Backend health of balanced APIs, by API */
+    backends: Record<string, BackendHealth[]>;
+
+    /** Load of APIs with a concurrency limit, by API */
+    load: Record<string, APILoad>;
+}
+
+/**
+ * Call metrics over a window
+ */
+export interface APIMetrics {
+    requests: number;
+    errors: number;
+    errorRate: number;
+
+    /** Median latency in ms */
+    p50: number;
+
+    /** 95th percentile latency in ms */
+    p95: number;
+
+    /** USDC charged */
+    earnings: number;
 }
 
 /**
- * Request context
+ * Windowed call metrics, overall and per API
+ */
+export interface WindowedMetrics extends APIMetrics {
+    windowMs: number;
+    apis: Record<string, APIMetrics>;
+}
+
+/**
+ * Request context passed to handlers
  */
 export interface RequestContext {
-    /** Payment details */
+    /** Payment details (no signature for free APIs) */
     payment: {
         amount: number;
         from: string;
-        signature: string;
+        signature?: string;
         chain: Chain;
+        /** Token the payment was made in */
+        asset?: string;
+        /** Set when paid through a session token */
+        session?: SessionClaims;
     };
 
     /** Request timestamp */
@@ -93,4 +847,310 @@ export interface RequestContext {
 
     /** Request ID */
     requestId: string;
-}
\ No newline at end of file
+
+    /** Name of the API being called */
+    api: string;
+
+    /** Aborted when the call times out or the client disconnects */
+    signal: AbortSignal;
+
+    /** Logger scoped to this request */
+    logger: Logger;
+}
+
+/**
+ * Log levels, from most to least verbose
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured logger. Wrap pino or similar with `fromPino`.
+ */
+export interface Logger {
+    debug: (message: string, meta?: Record<string, unknown>) => void;
+    info: (message: string, meta?: Record<string, unknown>) => void;
+    warn: (message: string, meta?: Record<string, unknown>) => void;
+    error: (message: string, meta?: Record<string, unknown>) => void;
+
+    /** Logger that adds `bindings` (e.g. a request ID) to every entry */
+    child: (bindings: Record<string, unknown>) => Logger;
+}
+
+/**
+ * Lifecycle state of a consumed payment
+ */
+export type PaymentStatus = 'pending' | 'spent' | 'refundable' | 'refunded';
+
+/**
+ * A payment signature recorded in the ledger
+ */
+export interface PaymentRecord {
+    /** Transaction signature */
+    signature: string;
+
+    /** Chain the payment was made on */
+    chain: Chain;
+
+    /** API the payment was used for */
+    api: string;
+
+    /** Request that consumed the payment */
+    requestId: string;
+
+    /** Amount received in USDC */
+    amount: number;
+
+    /** Payer address */
+    from: string;
+
+    /** Current state */
+    status: PaymentStatus;
+
+    /** Reason the payment became refundable */
+    reason?: string;
+
+    /** Transaction that refunded the payment */
+    refundSignature?: string;
+
+    /** ISO timestamp of the claim */
+    createdAt: string;
+
+    /** ISO timestamp of the last status change */
+    updatedAt: string;
+}
+
+/**
+ * Storage for consumed payment signatures (replay protection)
+ */
+export interface PaymentLedger {
+    /**
+     * Atomically record a signature as consumed.
+     * Resolves to false if the signature was already recorded.
+     */
+    claim: (record: Omit<PaymentRecord, 'status' | 'createdAt' | 'updatedAt'>) => Promise<boolean>;
+
+    /** Mark a claimed payment as spent after the call succeeded */
+    markSpent: (signature: string) => Promise<void>;
+
+    /** Mark a claimed payment as refundable after the call failed */
+    markRefundable: (signature: string, reason?: string) => Promise<void>;
+
+    /** Mark a refundable payment as refunded once the refund is confirmed */
+    markRefunded: (signature: string, refundSignature: string) => Promise<void>;
+
+    /** Drop a pending claim so the signature can be used again */
+    release: (signature: string) => Promise<void>;
+
+    /** Look up a recorded payment */
+    get: (signature: string) => Promise<PaymentRecord | undefined>;
+
+    /** Flush and release resources on shutdown */
+    close?: () => void | Promise<void>;
+}
+
+/**
+ * Outcome of a paid call
+ */
+export type CallOutcome = 'success' | 'error';
+
+/**
+ * A paid call recorded for accounting
+ */
+export interface CallRecord {
+    /** Request ID */
+    requestId: string;
+
+    /** ISO timestamp of the call */
+    timestamp: string;
+
+    api: string;
+
+    /** Payer address */
+    payer: string;
+
+    /** Payment transaction, if paid on-chain with the call */
+    signature?: string;
+
+    chain: Chain;
+
+    /** Token the payment was made in */
+    mint?: string;
+
+    /** Amount received on-chain with the call, in USDC */
+    amountReceived: number;
+
+    /** Amount charged for the call, in USDC (0 when it failed) */
+    priceCharged: number;
+
+    /** Latency in ms */
+    latency: number;
+
+    outcome: CallOutcome;
+
+    /** Error message for failed calls */
+    error?: string;
+}
+
+/**
+ * Filter for call records. Dates are inclusive.
+ */
+export interface CallLedgerQuery {
+    /** Earliest call, as a Date or ISO string */
+    from?: Date | string;
+
+    /** Latest call, as a Date or ISO string */
+    to?: Date | string;
+
+    api?: string;
+    payer?: string;
+    outcome?: CallOutcome;
+}
+
+/**
+ * Durable record of paid calls
+ */
+export interface CallLedger {
+    /** Record a finished call */
+    append: (record: CallRecord) => Promise<void>;
+
+    /** Calls matching the filter, oldest first */
+    query: (filter?: CallLedgerQuery) => Promise<CallRecord[]>;
+
+    /** Flush and release resources on shutdown */
+    close?: () => void | Promise<void>;
+}
+
+/**
+ * Prepaid USDC balances per payer wallet
+ */
+export interface BalanceStore {
+    /** Current balance */
+    get: (wallet: string) => Promise<number>;
+
+    /** Add to a balance; resolves to the new balance */
+    credit: (wallet: string, amount: number) => Promise<number>;
+
+    /** Atomically take up to `amount` from a balance */
+    debit: (wallet: string, amount: number) => Promise<{ debited: number; balance: number }>;
+}
+
+/**
+ * A single accepted way to pay for a resource (x402 `accepts` entry)
+ */
+export interface PaymentRequirement {
+    scheme: 'exact';
+    network: Chain;
+    /** Amount in the token's smallest unit */
+    maxAmountRequired: string;
+    resource: string;
+    description: string;
+    mimeType: string;
+    /** Recipient account */
+    payTo: string;
+    maxTimeoutSeconds: number;
+    /** Token address */
+    asset: string;
+    extra: {
+        api: string;
+        /** Price in USDC */
+        price: number;
+        decimals: number;
+        /** Wallet that owns `payTo` */
+        owner: string;
+        /** Nonce the payment must carry, when the node requires one */
+        nonce?: string;
+        /** ISO timestamp after which the challenge is no longer honoured */
+        expiresAt: string;
+        [key: string]: unknown;
+    };
+}
+
+/**
+ * Body of a 402 Payment Required response
+ */
+export interface PaymentRequiredBody {
+    x402Version: number;
+    error: string;
+    accepts: PaymentRequirement[];
+}
+
+/**
+ * What a challenge offers, before it is expressed per chain and token
+ */
+export interface PaymentOffer {
+    api: string;
+    /** Price in USDC */
+    price: number;
+    resource: string;
+    /** Server-issued nonce the payment must carry; only set when one is required */
+    nonce?: string;
+    /** ISO timestamp */
+    expiresAt: string;
+    timeoutSeconds: number;
+}
+
+/**
+ * What a payment has to satisfy
+ */
+export interface PaymentExpectation {
+    api: string;
+
+    /** Minimum amount in token units */
+    price: number;
+
+    /** Consumes a server-issued nonce found in the payment; set when one is required */
+    consumeNonce?: (nonce: string) => boolean;
+
+    /** Seconds since the payment transaction was included after which it is rejected */
+    maxAge?: number;
+}
+
+/**
+ * A payment that passed verification
+ */
+export interface VerifiedPayment {
+    /** Amount received, in token units */
+    amount: number;
+
+    /** Payer address */
+    from: string;
+
+    /** Token the payment was made in */
+    asset: string;
+
+    /** Canonical ID of the payment, used for replay protection */
+    reference: string;
+}
+
+/**
+ * Verifies payments on one chain
+ */
+export interface ChainVerifier {
+    /** Chain this verifier handles */
+    readonly chain: Chain;
+
+    /** Express an offer as x402 payment requirements */
+    requirements: (offer: PaymentOffer) => PaymentRequirement[];
+
+    /**
+     * Verify a payment proof from the X-Payment header.
+     * Throws a PaymentError describing why a payment was rejected.
+     */
+    verify: (proof: string, expected: PaymentExpectation) => Promise<VerifiedPayment>;
+
+    /** Receive the server's logger and RPC latency observer */
+    instrument?: (instrumentation: VerifierInstrumentation) => void;
+
+    /** Release RPC connections on shutdown */
+    close?: () => void | Promise<void>;
+}
+
+/**
+ * Hooks a server hands to its verifiers
+ */
+export interface VerifierInstrumentation {
+    logger: Logger;
+
+    /** Record the duration of an RPC call */
+    observeRPC: (method: string, seconds: number, ok: boolean) => void;
+}
@@ -0,0 +1,112 @@
+import { Keypair } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import { createSignedHeaderVerifier, decodeBase58, encodeBase58, isPrivateAddress } from './utils';
+
+// Order of the ed25519 group, for building a malleated signature
+const ED25519_ORDER = BigInt('0x1000000000000000000000000000000014def9dea2f79cd65812631a5cf5d3ed');
+
+function signedHeader(keypair: Keypair, scope: string, timestamp = Date.now()): { header: string; signature: Buffer } {
+    const wallet = keypair.publicKey.toBase58();
+    const message = new TextEncoder().encode(`${scope}:${wallet}:${timestamp}`);
+    const signature = Buffer.from(nacl.sign.detached(message, keypair.secretKey));
+    return { header: `${wallet}:${timestamp}:${signature.toString('base64')}`, signature };
+}
+
+describe('createSignedHeaderVerifier', () => {
+    const keypair = Keypair.generate();
+    const wallet = keypair.publicKey.toBase58();
+
+    it('resolves to the signing wallet', () => {
+        const verify = createSignedHeaderVerifier();
+
+        expect(verify(signedHeader(keypair, 'x402-balance').header, 'x402-balance')).toBe(wallet);
+    });
+
+    it('rejects a header signed for another scope', () => {
+        const verify = createSignedHeaderVerifier();
+
+        expect(verify(signedHeader(keypair, 'x402-balance').header, 'x402-admin')).toBeUndefined();
+    });
+
+    it('rejects stale headers', () => {
+        const verify = createSignedHeaderVerifier();
+        const { header } = signedHeader(keypair, 'x402-balance', Date.now() - 120000);
+
+        expect(verify(header, 'x402-balance')).toBeUndefined();
+    });
+
+    it('rejects a replayed header, whichever base64 form it is sent in', () => {
+        const verify = createSignedHeaderVerifier();
+        const { header, signature } = signedHeader(keypair, 'x402-balance');
+        const prefix = header.slice(0, header.lastIndexOf(':') + 1);
+
+        expect(verify(header, 'x402-balance')).toBe(wallet);
+        expect(verify(header, 'x402-balance')).toBeUndefined();
+        expect(verify(prefix + signature.toString('base64').replace(/=+$/, ''), 'x402-balance')).toBeUndefined();
+        expect(verify(prefix + signature.toString('base64url'), 'x402-balance')).toBeUndefined();
+    });
+
+    it('rejects signatures with a non-canonical S', () => {
+        const verify = createSignedHeaderVerifier();
+        const { header, signature } = signedHeader(keypair, 'x402-balance');
+        const prefix = header.slice(0, header.lastIndexOf(':') + 1);
+
+        // S + L verifies in tweetnacl but is a second encoding of the same signature.
+        // S is little-endian.
+        const s = BigInt(`0x${Buffer.from(signature.subarray(32)).reverse().toString('hex')}`);
+        const malleatedS = Buffer.from((s + ED25519_ORDER).toString(16).padStart(64, '0'), 'hex').reverse();
+        const malleated = Buffer.concat([signature.subarray(0, 32), malleatedS]);
+
+        expect(verify(prefix + malleated.toString('base64'), 'x402-balance')).toBeUndefined();
+        expect(verify(header, 'x402-balance')).toBe(wallet);
+    });
+
+    it('rejects signatures of the wrong length', () => {
+        const verify = createSignedHeaderVerifier();
+        const { header, signature } = signedHeader(keypair, 'x402-balance');
+        const prefix = header.slice(0, header.lastIndexOf(':') + 1);
+
+        const short = signature.subarray(0, 32);
+        const long = Buffer.concat([signature, Buffer.from([0])]);
+
+        expect(verify(prefix + short.toString('base64'), 'x402-balance')).toBeUndefined();
+        expect(verify(prefix + long.toString('base64'), 'x402-balance')).toBeUndefined();
+    });
+
+    it('rejects malformed headers', () => {
+        const verify = createSignedHeaderVerifier();
+
+        expect(verify('', 'x402-balance')).toBeUndefined();
+        expect(verify(`${wallet}:${Date.now()}`, 'x402-balance')).toBeUndefined();
+        expect(verify(`wallet:${Date.now()}:${Buffer.alloc(64).toString('base64')}`, 'x402-balance')).toBeUndefined();
+    });
+});
+
+describe('base58', () => {
+    it('round-trips bytes with leading zeros', () => {
+        const bytes = Uint8Array.from([0, 0, 1, 2, 255]);
+
+        expect(decodeBase58(encodeBase58(bytes))).toEqual(bytes);
+    });
+});
+
+describe('isPrivateAddress', () => {
+    const blocked = [
+        '127.0.0.1',
+        '10.1.2.3',
+        '172.16.0.1',
+        '192.168.1.1',
+        '169.254.169.254',
+        '::1',
+        'fe80::1',
+        '::ffff:7f00:1',
+    ];
+
+    it.each(blocked)('blocks %s', address => {
+        expect(isPrivateAddress(address)).toBe(true);
+    });
+
+    it.each(['8.8.8.8', '2606:4700::1111', 'example.com'])('allows %s', address => {
+        expect(isPrivateAddress(address)).toBe(false);
+    });
+});
@@ -1,6 +1,40 @@
-import { Keypair } from '@solana/web3.js';
-import { readFileSync } from 'fs';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { readFileSync, renameSync, writeFileSync } from 'fs';
 import { randomBytes } from 'crypto';
+import { BlockList, isIP } from 'net';
+import nacl from 'tweetnacl';
+
+// Window in which a signed auth header is accepted
+const SIGNED_HEADER_MAX_AGE_MS = 60000;
+
+// Order of the ed25519 group; a signature's S must be below it
+const ED25519_ORDER = BigInt('0x1000000000000000000000000000000014def9dea2f79cd65812631a5cf5d3ed');
+
+// Loopback, private, link-local, shared, multicast and reserved ranges.
+// IPv4-mapped IPv6 addresses are matched against the IPv4 ranges.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 3],
+] as const) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 127],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+] as const) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
 
 /**
  * Load wallet from file
@@ -14,6 +48,15 @@ export function loadWallet(path: string): Keypair {
     }
 }
 
+/**
+ * Replace a file's contents through a temp file and a rename, so a crash never leaves it truncated
+ */
+export function writeFileAtomic(path: string, data: string): void {
+    const tmpPath = `${path}.tmp`;
+    writeFileSync(tmpPath, data);
+    renameSync(tmpPath, path);
+}
+
 /**
  * Generate unique request ID
  */
@@ -21,9 +64,171 @@ export function generateRequestId(): string {
     return randomBytes(16).toString('hex');
 }
 
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Encode bytes as base58, e.g. a transaction signature
+ */
+export function encodeBase58(bytes: Uint8Array): string {
+    let value = BigInt(`0x${Buffer.from(bytes).toString('hex') || '0'}`);
+    let encoded = '';
+
+    while (value > BigInt(0)) {
+        encoded = BASE58_ALPHABET[Number(value % BigInt(58))] + encoded;
+        value /= BigInt(58);
+    }
+
+    // Each leading zero byte is a leading '1'
+    for (const byte of bytes) {
+        if (byte !== 0) {
+            break;
+        }
+        encoded = '1' + encoded;
+    }
+
+    return encoded;
+}
+
+/**
+ * Decode a base58 string, e.g. a secret key exported from a wallet app
+ */
+export function decodeBase58(encoded: string): Uint8Array {
+    let value = BigInt(0);
+    for (const char of encoded) {
+        const digit = BASE58_ALPHABET.indexOf(char);
+        if (digit === -1) {
+            throw new Error('Invalid base58 string');
+        }
+        value = value * BigInt(58) + BigInt(digit);
+    }
+
+    const hex = value > BigInt(0) ? value.toString(16) : '';
+    const bytes = Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex');
+
+    // Each leading '1' is a leading zero byte
+    let zeros = 0;
+    while (encoded[zeros] === '1') {
+        zeros++;
+    }
+
+    return Uint8Array.from([...new Array(zeros).fill(0), ...bytes]);
+}
+
 /**
  * Sleep utility
  */
 export function sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Whether a block time in unix seconds is within `maxAge` seconds of now. Unknown times aren't.
+ */
+export function isRecent(blockTime: number | null | undefined, maxAge: number): boolean {
+    return typeof blockTime === 'number' && Date.now() / 1000 - blockTime <= maxAge;
+}
+
+/**
+ * Whether a value is an absolute http(s) URL
+ */
+export function isHttpUrl(value: unknown): value is string {
+    if (typeof value !== 'string') {
+        return false;
+    }
+    try {
+        const { protocol } = new URL(value);
+        return protocol === 'http:' || protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+    const family = isIP(address);
+    return family !== 0 && PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Settle with a promise's result, or reject as soon as the signal aborts
+ */
+export function runUntilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    if (signal.aborted) {
+        return Promise.reject(signal.reason);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(
+            value => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            error => {
+                signal.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        );
+    });
+}
+
+/**
+ * Verify wallet-signed auth headers of the form `<wallet>:<timestamp>:<base64 signature>`,
+ * where the wallet signed `<scope>:<wallet>:<timestamp>`.
+ * Resolves to the wallet address, or undefined if the header is invalid, stale or replayed.
+ */
+export function createSignedHeaderVerifier(): (header: string, scope: string) => string | undefined {
+    const seen = new Map<string, number>();
+
+    return (header: string, scope: string) => {
+        const [wallet, timestamp, signature] = header.split(':');
+        const issuedAt = Number(timestamp);
+        const now = Date.now();
+
+        if (!wallet || !signature || !Number.isFinite(issuedAt) || Math.abs(now - issuedAt) > SIGNED_HEADER_MAX_AGE_MS) {
+            return undefined;
+        }
+
+        // Base64 decoding accepts padded, unpadded and URL-safe forms of the same bytes,
+        // so replays are checked on the bytes rather than the header text
+        const signatureBytes = Buffer.from(signature, 'base64');
+        if (signatureBytes.length !== nacl.sign.signatureLength || !isCanonicalSignature(signatureBytes)) {
+            return undefined;
+        }
+        const key = signatureBytes.toString('hex');
+
+        // Each signed header can only be used once within its window
+        for (const [seenKey, expiresAt] of seen) {
+            if (expiresAt <= now) {
+                seen.delete(seenKey);
+            }
+        }
+        if (seen.has(key)) {
+            return undefined;
+        }
+
+        try {
+            const message = new TextEncoder().encode(`${scope}:${wallet}:${timestamp}`);
+            if (!nacl.sign.detached.verify(message, signatureBytes, new PublicKey(wallet).toBytes())) {
+                return undefined;
+            }
+        } catch {
+            return undefined;
+        }
+
+        seen.set(key, issuedAt + SIGNED_HEADER_MAX_AGE_MS);
+        return wallet;
+    };
+}
+
+/**
+ * Whether an ed25519 signature's S is reduced. tweetnacl accepts S + L as well,
+ * which would give every signature a second byte form.
+ */
+function isCanonicalSignature(signature: Uint8Array): boolean {
+    const s = Buffer.from(signature.subarray(32)).reverse().toString('hex');
+    return BigInt(`0x${s}`) < ED25519_ORDER;
 }
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { Keypair } from '@solana/web3.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Keystore } from './types';
+import { encodeBase58 } from './utils';
+import { decryptKeystore, encryptKeystore, loadSigner, loadWalletFromEnv, walletAddress } from './wallet';
+
+describe('keystores', () => {
+    const keypair = Keypair.generate();
+    let keystore: Keystore;
+
+    // scrypt takes about a second per key, so the keystore is encrypted once
+    beforeAll(() => {
+        keystore = encryptKeystore(keypair, 'correct horse');
+    });
+
+    it('decrypts with the passphrase it was encrypted with', () => {
+        expect(decryptKeystore(keystore, 'correct horse').publicKey.equals(keypair.publicKey)).toBe(true);
+    });
+
+    it('never stores the secret key in the clear', () => {
+        const serialized = JSON.stringify(keystore);
+
+        expect(serialized).not.toContain(Buffer.from(keypair.secretKey).toString('hex'));
+        expect(serialized).not.toContain(encodeBase58(keypair.secretKey));
+    });
+
+    it('rejects a wrong passphrase', () => {
+        expect(() => decryptKeystore(keystore, 'wrong horse')).toThrow('Wrong passphrase or corrupted keystore');
+    });
+
+    it('rejects a keystore whose address was swapped', () => {
+        const swapped = { ...keystore, address: Keypair.generate().publicKey.toBase58() };
+
+        expect(() => decryptKeystore(swapped, 'correct horse')).toThrow('Wrong passphrase or corrupted keystore');
+    });
+
+    it('rejects a tampered ciphertext', () => {
+        const flipped = (parseInt(keystore.ciphertext.slice(0, 2), 16) ^ 1).toString(16).padStart(2, '0');
+        const tampered = { ...keystore, ciphertext: flipped + keystore.ciphertext.slice(2) };
+
+        expect(() => decryptKeystore(tampered, 'correct horse')).toThrow('Wrong passphrase or corrupted keystore');
+    });
+
+    it('rejects unknown formats', () => {
+        expect(() => decryptKeystore({ ...keystore, kdf: 'pbkdf2' } as any, 'correct horse')).toThrow(
+            'Unsupported keystore format'
+        );
+    });
+
+    describe('as a wallet source', () => {
+        let dir: string;
+        let path: string;
+
+        beforeAll(() => {
+            dir = mkdtempSync(join(tmpdir(), 'x402-keystore-'));
+            path = join(dir, 'wallet.keystore.json');
+            writeFileSync(path, JSON.stringify(keystore));
+        });
+
+        afterAll(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('reads the address without unlocking', () => {
+            expect(walletAddress({ keystore: path }).equals(keypair.publicKey)).toBe(true);
+        });
+
+        it('unlocks with a passphrase from the environment', () => {
+            process.env.TEST_KEYSTORE_PASSPHRASE = 'correct horse';
+            try {
+                const signer = loadSigner({ keystore: path, passphraseEnv: 'TEST_KEYSTORE_PASSPHRASE' });
+
+                expect(signer.publicKey.equals(keypair.publicKey)).toBe(true);
+            } finally {
+                delete process.env.TEST_KEYSTORE_PASSPHRASE;
+            }
+        });
+
+        it('names the missing passphrase variable', () => {
+            expect(() => loadSigner({ keystore: path, passphraseEnv: 'TEST_KEYSTORE_UNSET' })).toThrow(
+                'set TEST_KEYSTORE_UNSET'
+            );
+        });
+    });
+});
+
+describe('loadWalletFromEnv', () => {
+    const keypair = Keypair.generate();
+
+    afterEach(() => {
+        delete process.env.TEST_WALLET_KEY;
+    });
+
+    it('reads a base58 secret key', () => {
+        process.env.TEST_WALLET_KEY = encodeBase58(keypair.secretKey);
+
+        expect(loadWalletFromEnv('TEST_WALLET_KEY').publicKey.equals(keypair.publicKey)).toBe(true);
+    });
+
+    it('reads a JSON byte array', () => {
+        process.env.TEST_WALLET_KEY = JSON.stringify(Array.from(keypair.secretKey));
+
+        expect(loadWalletFromEnv('TEST_WALLET_KEY').publicKey.equals(keypair.publicKey)).toBe(true);
+    });
+
+    it('keeps the value out of its errors', () => {
+        process.env.TEST_WALLET_KEY = 'not-a-key';
+
+        expect(() => loadWalletFromEnv('TEST_WALLET_KEY')).toThrow(
+            'Environment variable TEST_WALLET_KEY does not hold a valid secret key'
+        );
+        expect(() => loadWalletFromEnv('TEST_WALLET_UNSET')).toThrow('TEST_WALLET_UNSET is not set');
+    });
+});
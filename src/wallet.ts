@@ -0,0 +1,163 @@
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { readFileSync } from 'fs';
+import nacl from 'tweetnacl';
+import { Keystore, KeystoreWalletSource, Signer, WalletSource } from './types';
+import { decodeBase58, loadWallet } from './utils';
+
+/** Env var read for a keystore passphrase when none is given */
+export const DEFAULT_PASSPHRASE_ENV = 'X402_WALLET_PASSPHRASE';
+
+// scrypt cost for new keystores: 128 MiB of memory and about a second to unlock
+const SCRYPT_N = 2 ** 17;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+
+/**
+ * Signer for a keypair held in memory
+ */
+export class KeypairSigner implements Signer {
+    readonly publicKey: PublicKey;
+    private keypair: Keypair;
+
+    constructor(keypair: Keypair) {
+        this.keypair = keypair;
+        this.publicKey = keypair.publicKey;
+    }
+
+    async signMessage(message: Uint8Array): Promise<Uint8Array> {
+        return nacl.sign.detached(message, this.keypair.secretKey);
+    }
+}
+
+/**
+ * Load the provider wallet from a config source. Key files and keystores are
+ * read synchronously, so a bad source fails when the server is created.
+ */
+export function loadSigner(source: WalletSource): Signer {
+    if (typeof source === 'string') {
+        return new KeypairSigner(loadWallet(source));
+    }
+    if ('signMessage' in source) {
+        return source;
+    }
+    if ('env' in source) {
+        return new KeypairSigner(loadWalletFromEnv(source.env));
+    }
+    return new KeypairSigner(unlockKeystore(source));
+}
+
+/**
+ * The wallet's address. Keystores and signers don't need unlocking for this.
+ */
+export function walletAddress(source: WalletSource): PublicKey {
+    if (typeof source === 'object' && 'keystore' in source) {
+        return new PublicKey(readKeystore(source.keystore).address);
+    }
+    return loadSigner(source).publicKey;
+}
+
+/**
+ * Read a secret key from an env var holding base58 or a JSON byte array
+ */
+export function loadWalletFromEnv(variable: string): Keypair {
+    const value = process.env[variable]?.trim();
+    if (!value) {
+        throw new Error(`Environment variable ${variable} is not set`);
+    }
+
+    // Errors mention the variable but never its value
+    try {
+        const secretKey = value.startsWith('[') ? Uint8Array.from(JSON.parse(value)) : decodeBase58(value);
+        return Keypair.fromSecretKey(secretKey);
+    } catch {
+        throw new Error(`Environment variable ${variable} does not hold a valid secret key`);
+    }
+}
+
+/**
+ * Encrypt a keypair with a passphrase
+ */
+export function encryptKeystore(keypair: Keypair, passphrase: string): Keystore {
+    const address = keypair.publicKey.toBase58();
+    const salt = randomBytes(32);
+    const iv = randomBytes(12);
+    const key = deriveKey(passphrase, { n: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P, salt: salt.toString('hex') });
+
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    // The address is authenticated too, so it can't be swapped for another
+    cipher.setAAD(Buffer.from(address));
+    const ciphertext = Buffer.concat([cipher.update(keypair.secretKey), cipher.final()]);
+
+    return {
+        version: 1,
+        address,
+        kdf: 'scrypt',
+        kdfParams: { n: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P, salt: salt.toString('hex') },
+        cipher: 'aes-256-gcm',
+        iv: iv.toString('hex'),
+        tag: cipher.getAuthTag().toString('hex'),
+        ciphertext: ciphertext.toString('hex'),
+    };
+}
+
+/**
+ * Decrypt a keystore. Throws if the passphrase is wrong or the file was altered.
+ */
+export function decryptKeystore(keystore: Keystore, passphrase: string): Keypair {
+    if (keystore.version !== 1 || keystore.kdf !== 'scrypt' || keystore.cipher !== 'aes-256-gcm') {
+        throw new Error('Unsupported keystore format');
+    }
+
+    let secretKey: Buffer;
+    try {
+        const decipher = createDecipheriv(
+            'aes-256-gcm',
+            deriveKey(passphrase, keystore.kdfParams),
+            Buffer.from(keystore.iv, 'hex')
+        );
+        decipher.setAAD(Buffer.from(keystore.address));
+        decipher.setAuthTag(Buffer.from(keystore.tag, 'hex'));
+        secretKey = Buffer.concat([decipher.update(Buffer.from(keystore.ciphertext, 'hex')), decipher.final()]);
+    } catch {
+        throw new Error('Wrong passphrase or corrupted keystore');
+    }
+
+    const keypair = Keypair.fromSecretKey(secretKey);
+    if (keypair.publicKey.toBase58() !== keystore.address) {
+        throw new Error('Keystore key does not match its address');
+    }
+    return keypair;
+}
+
+function unlockKeystore(source: KeystoreWalletSource): Keypair {
+    const passphraseEnv = source.passphraseEnv ?? DEFAULT_PASSPHRASE_ENV;
+    const passphrase = source.passphrase ?? process.env[passphraseEnv];
+    if (!passphrase) {
+        throw new Error(`No passphrase for ${source.keystore}: set ${passphraseEnv}`);
+    }
+
+    try {
+        return decryptKeystore(readKeystore(source.keystore), passphrase);
+    } catch (error) {
+        throw new Error(`Failed to unlock ${source.keystore}: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+function readKeystore(path: string): Keystore {
+    try {
+        return JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Failed to load keystore from ${path}: ${error}`);
+    }
+}
+
+function deriveKey(passphrase: string, params: Keystore['kdfParams']): Buffer {
+    return scryptSync(passphrase.normalize('NFKC'), Buffer.from(params.salt, 'hex'), 32, {
+        N: params.n,
+        r: params.r,
+        p: params.p,
+        // Node's default 32 MiB cap is too low for N = 2^17
+        maxmem: 256 * params.n * params.r,
+    });
+}